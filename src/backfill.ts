@@ -0,0 +1,241 @@
+import { SessionManager, type SessionEntry, type SessionInfo } from "@mariozechner/pi-coding-agent";
+import { formatProvider, processBranch } from "./branch";
+import type { MessageData, SessionData, SyncResult, SyncTarget } from "./client";
+import type { SessionLedger } from "./ledger";
+import { mergeTags, readTags } from "./tags";
+import type { ToolRules } from "./tools";
+
+/** Messages per /sync/batch request, to stay well under request size limits */
+const BACKFILL_CHUNK_SIZE = 50;
+
+/**
+ * Options for a backfill run
+ */
+export interface BackfillOptions {
+  /** Scan sessions from every project instead of only the current one */
+  all: boolean;
+  /** Report what would be uploaded without sending anything */
+  dryRun: boolean;
+  /** Session being synced live, which backfill must leave alone */
+  currentSessionId?: string;
+  /** Override pi's per-project session directory */
+  sessionDir?: string;
+  /** Upload session metadata only, never message content */
+  privateMode?: boolean;
+  /** Per-tool sync rules, as applied to live sessions */
+  toolRules?: ToolRules;
+  /** Display name for a model; defaults to the model ID */
+  modelName?: (provider: string, modelId: string) => string;
+  /** Tags from tag rules for a session's project and the models it used */
+  autoTags?: (projectPath: string, models: string[]) => Promise<string[]>;
+}
+
+/**
+ * Progress update emitted before each session is processed
+ */
+export interface BackfillProgress {
+  index: number;
+  total: number;
+  session: SessionInfo;
+}
+
+/**
+ * Outcome of a backfill run
+ */
+export interface BackfillSummary {
+  /** Session files found */
+  scanned: number;
+  /** Sessions uploaded (or that would be, in a dry run) */
+  uploaded: number;
+  /** Sessions already uploaded, empty, currently active, or in excluded projects */
+  skipped: number;
+  /** Sessions that failed to upload */
+  failed: number;
+  /** Messages uploaded (or that would be, in a dry run) */
+  messages: number;
+  errors: string[];
+}
+
+/**
+ * Parse `/opensync:backfill` arguments. Unrecognized tokens are returned so
+ * the command can show usage instead of guessing.
+ */
+export function parseBackfillArgs(
+  args: string
+): Pick<BackfillOptions, "all" | "dryRun"> & { unknown: string[] } {
+  const result = { all: false, dryRun: false, unknown: [] as string[] };
+  for (const token of args.split(/\s+/).filter(Boolean)) {
+    if (token === "--all" || token === "-a") {
+      result.all = true;
+    } else if (token === "--dry-run" || token === "-n") {
+      result.dryRun = true;
+    } else {
+      result.unknown.push(token);
+    }
+  }
+  return result;
+}
+
+/**
+ * Upload historical pi sessions that never reached OpenSync.
+ *
+ * Each session is rebuilt with the same processBranch logic used for resume
+ * and fork, then sent as a session upsert followed by chunked batch requests.
+ * Each session goes to the destinations its own project routes to, and
+ * sessions whose project is excluded from syncing are skipped. Sessions are
+ * recorded in the ledger once uploaded so later runs skip them.
+ */
+export async function runBackfill(
+  clientFor: (projectPath: string) => Promise<SyncTarget | null>,
+  ledger: SessionLedger,
+  cwd: string,
+  options: BackfillOptions,
+  onProgress?: (progress: BackfillProgress) => void
+): Promise<BackfillSummary> {
+  const sessions = options.all
+    ? await SessionManager.listAll()
+    : await SessionManager.list(cwd, options.sessionDir);
+
+  const summary: BackfillSummary = {
+    scanned: sessions.length,
+    uploaded: 0,
+    skipped: 0,
+    failed: 0,
+    messages: 0,
+    errors: [],
+  };
+
+  const pending = sessions.filter(
+    (s) => s.id !== options.currentSessionId && !ledger.has(s.id)
+  );
+  summary.skipped = sessions.length - pending.length;
+
+  for (const [index, info] of pending.entries()) {
+    onProgress?.({ index, total: pending.length, session: info });
+
+    let sessionManager: SessionManager;
+    try {
+      sessionManager = SessionManager.open(info.path);
+    } catch (error) {
+      summary.failed++;
+      summary.errors.push(`${info.path}: ${error instanceof Error ? error.message : error}`);
+      continue;
+    }
+
+    const branchData = processBranch(sessionManager, options);
+    const { stats } = branchData;
+    const messages = options.privateMode ? [] : branchData.messages;
+    if (stats.messageCount === 0) {
+      summary.skipped++;
+      continue;
+    }
+
+    const projectPath = info.cwd || cwd;
+    const client = await clientFor(projectPath);
+    if (!client) {
+      summary.skipped++;
+      continue;
+    }
+
+    if (options.dryRun) {
+      summary.uploaded++;
+      summary.messages += messages.length;
+      continue;
+    }
+
+    const branch = sessionManager.getBranch();
+    const ruleTags = (await options.autoTags?.(projectPath, stats.models.map((m) => m.model))) ?? [];
+    const session: SessionData = {
+      sessionId: info.id,
+      projectPath,
+      ...lastModel(branch, options.modelName),
+      ...stats,
+      tags: mergeTags(readTags(branch), ruleTags),
+      startedAt: info.created.getTime(),
+      endedAt: lastTimestamp(branch) ?? info.modified.getTime(),
+    };
+
+    const result = await uploadSession(client, session, messages, sessionManager);
+    if (result.success || result.queued) {
+      ledger.add(info.id);
+      summary.uploaded++;
+      summary.messages += messages.length;
+    } else {
+      summary.failed++;
+      summary.errors.push(`${info.id}: ${result.error}`);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Sync session metadata, then its messages in chunks, then the final
+ * metadata again so totals reflect the uploaded messages
+ */
+async function uploadSession(
+  client: SyncTarget,
+  session: SessionData,
+  messages: MessageData[],
+  sessionManager: SessionManager
+): Promise<SyncResult> {
+  const ctx = { sessionManager };
+
+  const first = await client.syncSession(session, ctx, true);
+  if (!first.success && !first.queued) return first;
+
+  for (let i = 0; i < messages.length; i += BACKFILL_CHUNK_SIZE) {
+    const result = await client.syncBatch(messages.slice(i, i + BACKFILL_CHUNK_SIZE));
+    if (!result.success && !result.queued) return result;
+  }
+
+  return client.syncSession(session, ctx, true);
+}
+
+/**
+ * Model and provider of the last assistant message in a branch, named the
+ * way live sessions name them
+ */
+function lastModel(
+  branch: SessionEntry[],
+  modelName: (provider: string, modelId: string) => string = (_provider, modelId) => modelId
+): Pick<SessionData, "model" | "provider"> {
+  for (let i = branch.length - 1; i >= 0; i--) {
+    const entry = branch[i];
+    if (entry.type === "message" && entry.message.role === "assistant") {
+      return {
+        model: modelName(entry.message.provider, entry.message.model),
+        provider: formatProvider(entry.message.provider),
+      };
+    }
+  }
+  return {};
+}
+
+/**
+ * Timestamp of the last entry in a branch, used as the session end time
+ */
+function lastTimestamp(branch: SessionEntry[]): number | undefined {
+  const last = branch[branch.length - 1];
+  if (!last) return undefined;
+  const time = Date.parse(last.timestamp);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Human-readable summary for the completion notification
+ */
+export function formatBackfillSummary(summary: BackfillSummary, dryRun: boolean): string {
+  const lines = dryRun
+    ? [`Dry run: would upload ${summary.uploaded} session(s) with ${summary.messages} message(s)`]
+    : [`Uploaded ${summary.uploaded} session(s) with ${summary.messages} message(s)`];
+
+  lines.push(`Scanned ${summary.scanned}, skipped ${summary.skipped}, failed ${summary.failed}`);
+  for (const error of summary.errors.slice(0, 5)) {
+    lines.push(`  ${error}`);
+  }
+  if (summary.errors.length > 5) {
+    lines.push(`  ...and ${summary.errors.length - 5} more`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,336 @@
+import type { Usage } from "@mariozechner/pi-ai";
+import {
+  estimateTokens,
+  type CompactionEntry,
+  type ModelChangeEntry,
+  type SessionEntry,
+  type SessionManager,
+} from "@mariozechner/pi-coding-agent";
+import type {
+  AssistantMessageData,
+  MessageData,
+  ModelUsage,
+  SystemMessageData,
+  UsageTotals,
+} from "./client";
+import { applySyncModeEntry, type SyncMode } from "./session";
+import { toolRuleFor, type ToolRules } from "./tools";
+
+/**
+ * Stats accumulated from processing a branch of messages.
+ */
+export interface BranchStats extends UsageTotals {
+  messageCount: number;
+  toolCallCount: number;
+  /** Usage broken down by the model that produced it */
+  models: ModelUsage[];
+}
+
+/**
+ * Options for processBranch
+ */
+export interface BranchOptions {
+  /** Per-tool sync rules */
+  toolRules?: ToolRules;
+  /** Display name for a model; defaults to the model ID */
+  modelName?: (provider: string, modelId: string) => string;
+}
+
+/**
+ * Provider name as shown on the dashboard (`anthropic-bedrock` → `anthropic bedrock`)
+ */
+export function formatProvider(provider: string): string {
+  return provider.replace(/-/g, " ");
+}
+
+/**
+ * Zeroed usage totals
+ */
+export function emptyUsage(): UsageTotals {
+  return {
+    promptTokens: 0,
+    completionTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    cost: 0,
+    costBreakdown: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+  };
+}
+
+/**
+ * Add one assistant message's usage to running totals. pi reports cached
+ * prompt tokens separately from `input`, so they're added back in.
+ */
+export function addUsage(totals: UsageTotals, usage: Usage | undefined): void {
+  if (!usage) return;
+  totals.promptTokens += usage.input + usage.cacheRead + usage.cacheWrite;
+  totals.completionTokens += usage.output;
+  totals.cacheReadTokens += usage.cacheRead;
+  totals.cacheWriteTokens += usage.cacheWrite;
+  totals.cost += usage.cost.total;
+  totals.costBreakdown.input += usage.cost.input;
+  totals.costBreakdown.output += usage.cost.output;
+  totals.costBreakdown.cacheRead += usage.cost.cacheRead;
+  totals.costBreakdown.cacheWrite += usage.cost.cacheWrite;
+}
+
+/**
+ * Add one assistant message's usage to the per-model breakdown
+ */
+export function recordModelUsage(
+  models: ModelUsage[],
+  model: string,
+  provider: string,
+  usage: Usage | undefined
+): void {
+  let entry = models.find((m) => m.model === model && m.provider === provider);
+  if (!entry) {
+    entry = { model, provider, ...emptyUsage(), messageCount: 0 };
+    models.push(entry);
+  }
+  entry.messageCount++;
+  addUsage(entry, usage);
+}
+
+/**
+ * OpenSync message ID for a session entry. Derived from pi's entry ID so the
+ * same message maps to the same ID in live sync, resume, fork and backfill.
+ */
+export function messageIdFor(sessionId: string, entryId: string): string {
+  return `${sessionId}-${entryId}`;
+}
+
+/**
+ * System message marking where the conversation returned to an earlier
+ * point in the session tree. Messages after the marker belong to the new
+ * branch; the summary, when pi produced one, describes the abandoned one.
+ */
+export function branchMarkerMessage(
+  sessionId: string,
+  entryId: string,
+  summary?: string,
+  timestamp = Date.now()
+): SystemMessageData {
+  const text = summary
+    ? `[Branch] Returned to an earlier point in the session. Summary of the abandoned branch:\n\n${summary}`
+    : "[Branch] Returned to an earlier point in the session. The conversation continues from there and the previous branch was abandoned.";
+  return { role: "system", sessionId, messageId: messageIdFor(sessionId, entryId), text, timestamp };
+}
+
+/**
+ * System message recording a context compaction: the summary pi produced,
+ * how many tokens it replaced, and where the kept context begins. Token
+ * counts after compaction are estimated the same way pi estimates them.
+ */
+export function compactionMessage(
+  sessionId: string,
+  entry: CompactionEntry,
+  branch: SessionEntry[]
+): SystemMessageData {
+  const compactionIndex = branch.findIndex((e) => e.id === entry.id);
+  const keptIndex = branch.findIndex((e) => e.id === entry.firstKeptEntryId);
+  const kept =
+    keptIndex >= 0 ? branch.slice(keptIndex, compactionIndex >= 0 ? compactionIndex : undefined) : [];
+
+  const tokensAfter = kept.reduce(
+    (total, e) => total + (e.type === "message" ? estimateTokens(e.message) : 0),
+    Math.ceil(entry.summary.length / 4)
+  );
+
+  const firstKept = kept.find((e) => e.type === "message");
+  const keptFrom = firstKept
+    ? `the model keeps messages from ${describeEntry(firstKept)} onward`
+    : "no earlier messages were kept";
+
+  const before = entry.tokensBefore.toLocaleString("en-US");
+  const after = tokensAfter.toLocaleString("en-US");
+  const text = [
+    `[Compaction] Context compacted from ${before} to ~${after} tokens.`,
+    `Earlier messages were replaced by this summary; ${keptFrom}.`,
+    "",
+    entry.summary,
+  ].join("\n");
+
+  return {
+    role: "system",
+    sessionId,
+    messageId: messageIdFor(sessionId, entry.id),
+    text,
+    timestamp: Date.parse(entry.timestamp),
+  };
+}
+
+/**
+ * System message recording a switch to a different model
+ */
+export function modelSwitchMessage(
+  sessionId: string,
+  entry: ModelChangeEntry,
+  modelName: string
+): SystemMessageData {
+  return {
+    role: "system",
+    sessionId,
+    messageId: messageIdFor(sessionId, entry.id),
+    text: `[Model] Switched to ${modelName} (${formatProvider(entry.provider)})`,
+    timestamp: Date.parse(entry.timestamp),
+  };
+}
+
+/**
+ * Short quote of a message entry for use in markers
+ */
+function describeEntry(entry: SessionEntry): string {
+  if (entry.type !== "message") return entry.type;
+  const msg = entry.message;
+
+  let text = "";
+  if (msg.role === "user") {
+    text = typeof msg.content === "string"
+      ? msg.content
+      : msg.content.filter((p) => p.type === "text").map((p) => p.text).join(" ");
+  } else if (msg.role === "assistant") {
+    text = msg.content.filter((p) => p.type === "text").map((p) => p.text).join(" ");
+  } else if (msg.role === "toolResult") {
+    return `the ${msg.toolName} tool result`;
+  }
+
+  const quote = text.replace(/\s+/g, " ").trim();
+  if (!quote) return `the ${msg.role} message`;
+  return `"${quote.length > 60 ? `${quote.slice(0, 57)}...` : quote}"`;
+}
+
+/**
+ * Turn a session branch into message payloads and session stats. Used for
+ * live syncing after each turn, and for resumed, forked and backfilled
+ * sessions.
+ *
+ * Tool results are attached to the call that requested them, and branch
+ * summaries, compactions and model switches become marker messages.
+ * Messages the sync mode or tool rules leave out still count toward the
+ * stats. Returns the mode in effect at the end of the branch so live
+ * syncing can carry on from there.
+ */
+export function processBranch(
+  sessionManager: Pick<SessionManager, "getBranch" | "getSessionId">,
+  options: BranchOptions = {}
+): { stats: BranchStats; messages: MessageData[]; mode: SyncMode } {
+  const branch = sessionManager.getBranch();
+  const sessionId = sessionManager.getSessionId();
+  const toolRules = options.toolRules ?? {};
+  const modelName = options.modelName ?? ((_provider: string, modelId: string) => modelId);
+
+  const stats: BranchStats = {
+    messageCount: 0,
+    ...emptyUsage(),
+    toolCallCount: 0,
+    models: [],
+  };
+  const messages: MessageData[] = [];
+  let mode: SyncMode = { paused: false, private: false };
+  let lastAssistant: AssistantMessageData | undefined;
+  // Model in use, to tell real switches from pi re-recording the same model
+  let currentModel: string | undefined;
+
+  for (const entry of branch) {
+    mode = applySyncModeEntry(mode, entry);
+
+    if (entry.type === "branch_summary") {
+      lastAssistant = undefined;
+      if (!mode.paused && !mode.private) {
+        messages.push(
+          branchMarkerMessage(sessionId, entry.id, entry.summary, Date.parse(entry.timestamp))
+        );
+      }
+      continue;
+    }
+
+    if (entry.type === "compaction") {
+      lastAssistant = undefined;
+      if (!mode.paused && !mode.private) {
+        messages.push(compactionMessage(sessionId, entry, branch));
+      }
+      continue;
+    }
+
+    if (entry.type === "model_change") {
+      const model = `${entry.provider}/${entry.modelId}`;
+      // The first model of a session is the starting point, not a switch
+      if (currentModel && model !== currentModel && !mode.paused && !mode.private) {
+        messages.push(modelSwitchMessage(sessionId, entry, modelName(entry.provider, entry.modelId)));
+      }
+      currentModel = model;
+      continue;
+    }
+
+    if (entry.type !== "message") continue;
+
+    const msg = entry.message;
+    const syncContent = !mode.paused && !mode.private;
+
+    if (msg.role === "toolResult") {
+      const rule = toolRuleFor(toolRules, msg.toolName);
+      if (syncContent && lastAssistant && rule !== "none") {
+        lastAssistant.toolResults ??= [];
+        lastAssistant.toolResults.push({
+          toolCallId: msg.toolCallId,
+          toolName: msg.toolName,
+          isError: msg.isError,
+          content: rule === "call" ? [] : msg.content,
+        });
+      }
+      continue;
+    }
+
+    if (msg.role !== "user" && msg.role !== "assistant") continue;
+
+    stats.messageCount++;
+    const messageId = messageIdFor(sessionId, entry.id);
+
+    if (msg.role === "user") {
+      lastAssistant = undefined;
+      if (!syncContent) continue;
+
+      const text =
+        typeof msg.content === "string"
+          ? msg.content
+          : msg.content
+            .filter((p) => p.type === "text")
+            .map((p) => (p as { text: string }).text)
+            .join("\n");
+      const images = typeof msg.content === "string" ? [] : msg.content.filter((p) => p.type === "image");
+
+      messages.push({
+        role: "user",
+        sessionId,
+        messageId,
+        text,
+        ...(images.length > 0 && { images }),
+        timestamp: msg.timestamp,
+      });
+    } else {
+      lastAssistant = undefined;
+      if (syncContent) {
+        lastAssistant = {
+          role: "assistant",
+          sessionId,
+          messageId,
+          content: msg.content.filter(
+            (p) => p.type !== "toolCall" || toolRuleFor(toolRules, p.name) !== "none"
+          ),
+          model: msg.model,
+          timestamp: msg.timestamp,
+          usage: msg.usage,
+        };
+        messages.push(lastAssistant);
+      }
+
+      addUsage(stats, msg.usage);
+      recordModelUsage(stats.models, modelName(msg.provider, msg.model), formatProvider(msg.provider), msg.usage);
+      currentModel ??= `${msg.provider}/${msg.model}`;
+      stats.toolCallCount += msg.content.filter((p) => p.type === "toolCall").length;
+    }
+  }
+
+  return { stats, messages, mode };
+}
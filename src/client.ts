@@ -1,7 +1,53 @@
-import { basename } from "node:path";
+import { basename, join } from "node:path";
 import { appendFileSync } from "node:fs";
+import type { Usage } from "@mariozechner/pi-ai";
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
 import type { Config } from "./config";
+import type { Outbox } from "./outbox";
+import type { GitContext } from "./git";
+import { describeImage, imagePlaceholder, ImageStore, type ImageInfo } from "./images";
+import { byteLength, chunkBySize, limitValue, truncateText } from "./limits";
+import { Redactor } from "./redact";
+import { backoffDelay, type RetryPolicy } from "./retry";
+import { sessionTitle, type TitleOptions } from "./title";
+import { FileTransport, HttpTransport, type Transport, type TransportResult } from "./transport";
+
+/** Where requests are logged when `debug` is on, relative to pi's working directory */
+export const DEBUG_LOG_FILE = join(".pi", "opensync-debug.jsonl");
+
+/**
+ * Cost split by what it was charged for
+ */
+export interface CostBreakdown {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+/**
+ * Tokens and cost summed over assistant messages. Prompt tokens include
+ * those read from or written to the provider's prompt cache, so they
+ * reflect the full context sent.
+ */
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  cost: number;
+  costBreakdown: CostBreakdown;
+}
+
+/**
+ * Tokens and cost attributed to one model within a session
+ */
+export interface ModelUsage extends UsageTotals {
+  model: string;
+  provider: string;
+  /** Assistant messages produced by this model */
+  messageCount: number;
+}
 
 /**
  * Session metadata for syncing to OpenSync
@@ -14,9 +60,29 @@ export interface SessionData {
   provider?: string;
   promptTokens?: number;
   completionTokens?: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
   cost?: number;
+  costBreakdown?: CostBreakdown;
   messageCount?: number;
+  /** Repository state: branch, remote, HEAD at start and end, uncommitted changes */
+  git?: GitContext;
+  /** Labels added with /opensync:tag or by tag rules */
+  tags?: string[];
+  /** Usage per model, when more than the session totals are known */
+  models?: ModelUsage[];
   startedAt?: number;
+  /** When the session ended, for sessions synced after the fact. Defaults to now. */
+  endedAt?: number;
+}
+
+/**
+ * Base64-encoded image, as pi stores it in user messages and tool results
+ */
+export interface ImageAttachment {
+  type: "image";
+  data: string;
+  mimeType: string;
 }
 
 /**
@@ -27,6 +93,7 @@ export interface UserMessageData {
   sessionId: string;
   messageId: string;
   text: string;
+  images?: ImageAttachment[];
   timestamp?: number;
 }
 
@@ -40,19 +107,34 @@ export interface AssistantMessageData {
   content: AssistantContentPart[];
   model: string;
   timestamp: number;
-  usage?: { input: number; output: number };
+  usage?: Usage;
   toolResults?: ToolResultData[];
+  /** Overrides the client's syncThinking setting for this message */
   includeThinking?: boolean;
 }
 
-export type MessageData = UserMessageData | AssistantMessageData;
+/**
+ * Plugin-generated marker in the message stream, such as a branch switch
+ */
+export interface SystemMessageData {
+  role: "system";
+  sessionId: string;
+  messageId: string;
+  text: string;
+  timestamp?: number;
+}
+
+export type MessageData = UserMessageData | AssistantMessageData | SystemMessageData;
 
 /**
  * Tool result data included with assistant messages
  */
 export interface ToolResultData {
+  /** ID of the tool call this result answers */
+  toolCallId: string;
   toolName: string;
-  content: { type: "text"; text: string }[];
+  isError: boolean;
+  content: ({ type: "text"; text: string } | ImageAttachment)[];
 }
 
 /**
@@ -61,6 +143,69 @@ export interface ToolResultData {
 export interface SyncResult {
   success: boolean;
   error?: string;
+  /** True when the failed request was stored in the outbox for replay */
+  queued?: boolean;
+  /** Number of HTTP attempts made, including retries */
+  attempts?: number;
+}
+
+/**
+ * Outcome of the most recent request of one kind, for diagnostics
+ */
+export interface RequestRecord {
+  endpoint: string;
+  at: number;
+  error?: string;
+}
+
+/**
+ * Health of one destination as seen by this process
+ */
+export interface DestinationStatus {
+  /** Profile name, when the client was created for one */
+  name?: string;
+  url: string;
+  /** Requests waiting in the outbox */
+  pending: number;
+  lastSuccess?: RequestRecord;
+  lastFailure?: RequestRecord;
+}
+
+/**
+ * Anything that can deliver sessions and messages: a single SyncClient, or
+ * a fan-out over several of them
+ */
+export interface SyncTarget {
+  syncSession(
+    session: SessionData,
+    ctx: Pick<ExtensionContext, "sessionManager">,
+    isFinal?: boolean
+  ): Promise<SyncResult>;
+  syncMessage(message: MessageData): Promise<SyncResult>;
+  syncBatch(messages: MessageData[]): Promise<SyncResult>;
+  /** Store a session update for replay without sending it */
+  deferSession(
+    session: SessionData,
+    ctx: Pick<ExtensionContext, "sessionManager">,
+    isFinal?: boolean
+  ): SyncResult;
+  /** Store messages for replay without sending them */
+  deferBatch(messages: MessageData[]): SyncResult;
+  flushOutbox(): Promise<SyncResult>;
+  pendingCount(): number;
+  status(): DestinationStatus[];
+}
+
+/**
+ * Optional collaborators for SyncClient
+ */
+export interface SyncClientOptions {
+  /** Profile name reported in status output */
+  name?: string;
+  /** Durable queue for requests that fail with a transient error */
+  outbox?: Outbox;
+  /** Where payloads are delivered; defaults to the transport named in config */
+  transport?: Transport;
 }
 
 /**
@@ -97,7 +242,7 @@ type AssistantContentPart = TextContent | ThinkingContent | ToolCallContent;
 /**
  * API payload format for session sync endpoint
  */
-interface SessionPayload {
+export interface SessionPayload {
   externalId: string;
   source: "pi";
   title?: string;
@@ -108,9 +253,15 @@ interface SessionPayload {
   promptTokens?: number;
   completionTokens?: number;
   totalTokens?: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
   cost?: number;
+  costBreakdown?: CostBreakdown;
   durationMs?: number;
   messageCount?: number;
+  modelUsage?: (ModelUsage & { totalTokens: number })[];
+  git?: GitContext;
+  tags?: string[];
 }
 
 /**
@@ -135,6 +286,7 @@ interface ToolCallPart {
 interface ToolResultPart {
   type: "tool-result";
   content: string;
+  isError: boolean;
 }
 
 /**
@@ -145,22 +297,35 @@ interface ThinkingPart {
   content: string;
 }
 
+/**
+ * Image placeholder part in message payload. Image data is never sent, only
+ * what's needed to show that an image was there.
+ */
+interface ImagePart {
+  type: "image";
+  content: ImageInfo;
+}
+
 /**
  * Structured content part in message payload (tool calls, thinking, etc.)
  */
-type MessagePart = TextPart | ToolCallPart | ToolResultPart | ThinkingPart;
+type MessagePart = TextPart | ToolCallPart | ToolResultPart | ThinkingPart | ImagePart;
 
 /**
  * API payload format for message sync endpoint
  */
-interface MessagePayload {
+export interface MessagePayload {
   sessionExternalId: string;
   externalId: string;
-  role: "user" | "assistant";
+  role: "user" | "assistant" | "system";
   textContent?: string;
   model?: string;
   promptTokens?: number;
   completionTokens?: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+  cost?: number;
+  costBreakdown?: CostBreakdown;
   createdAt?: number;
   parts?: MessagePart[];
 }
@@ -169,27 +334,96 @@ interface MessagePayload {
  * Client for syncing sessions and messages to OpenSync API.
  *
  * Transforms domain objects (SessionData, MessageData) into the payload
- * format expected by OpenSync endpoints. Handles authentication and
- * error responses.
+ * format expected by OpenSync endpoints, redacted and cut to size, and
+ * hands them to a transport. Transient failures are retried with backoff
+ * and, given an outbox, queued for replay.
  */
-export class SyncClient {
-  private siteUrl: string;
-  private apiKey: string;
+export class SyncClient implements SyncTarget {
+  private transport: Transport;
   private debug: boolean;
-
-  constructor(config: Config) {
-    this.apiKey = config.apiKey;
+  private syncThinking: boolean;
+  private syncToolCalls: boolean;
+  private retry: RetryPolicy;
+  private redactor: Redactor;
+  private maxPartBytes: number;
+  private maxRequestBytes: number;
+  private images?: ImageStore;
+  private titles: TitleOptions;
+  private outbox?: Outbox;
+  private flushing?: Promise<SyncResult>;
+  /** New requests skip replaying the outbox until then, after a replay failed */
+  private replayAfter = 0;
+  private name?: string;
+  private lastSuccess?: RequestRecord;
+  private lastFailure?: RequestRecord;
+
+  constructor(config: Config, options: SyncClientOptions = {}) {
+    this.transport = options.transport ?? createTransport(config);
     this.debug = config.debug;
-    // Convex dashboard shows .convex.cloud URLs, but HTTP endpoints use .convex.site
-    this.siteUrl = config.convexUrl.replace(".convex.cloud", ".convex.site");
+    this.syncThinking = config.syncThinking;
+    this.syncToolCalls = config.syncToolCalls;
+    this.retry = {
+      maxRetries: config.maxRetries,
+      baseDelayMs: config.retryBaseDelayMs,
+      maxDelayMs: config.retryMaxDelayMs,
+    };
+    this.redactor = new Redactor(config);
+    this.maxPartBytes = config.maxPartBytes;
+    this.maxRequestBytes = config.maxRequestBytes;
+    this.images = config.imageDir ? new ImageStore(config.imageDir) : undefined;
+    this.titles = {
+      titleStrategy: config.titleStrategy,
+      titleTemplate: config.titleTemplate,
+      forkTitleTemplate: config.forkTitleTemplate,
+      includeContent: !config.privateMode,
+    };
+    this.outbox = options.outbox;
+    this.name = options.name;
   }
 
   /**
-   * Sync multiple messages in a single batch request
+   * Sync multiple messages, split into as many batch requests as needed to
+   * stay within maxRequestBytes. Every chunk is attempted even if an earlier
+   * one fails, so one bad chunk doesn't hold back the rest.
    */
   async syncBatch(messages: MessageData[]): Promise<SyncResult> {
+    const results: SyncResult[] = [];
+    for (const body of this.batchBodies(messages)) {
+      results.push(await this.request("/sync/batch", body));
+    }
+
+    const attempts = results.reduce((total, r) => total + (r.attempts ?? 0), 0);
+    const failures = results.filter((r) => !r.success);
+    if (failures.length === 0) return { success: true, attempts };
+    return {
+      success: false,
+      error: failures.map((r) => r.error).join("; "),
+      queued: failures.every((r) => r.queued),
+      attempts,
+    };
+  }
+
+  /**
+   * Store messages in the outbox without trying to send them, for when
+   * there's no time left to wait on the network
+   */
+  deferBatch(messages: MessageData[]): SyncResult {
+    const stored = this.batchBodies(messages).map((body) => this.enqueue("/sync/batch", body));
+    return { success: false, error: "Saved to the outbox unsent", queued: stored.every(Boolean) };
+  }
+
+  /**
+   * Batch request bodies for messages, each within maxRequestBytes
+   */
+  private batchBodies(messages: MessageData[]): { sessions: []; messages: MessagePayload[] }[] {
     const messagePayloads = messages.map((m) => this.buildMessagePayload(m));
-    return this.request("/sync/batch", { sessions: [], messages: messagePayloads });
+    const envelope = byteLength(JSON.stringify({ sessions: [], messages: [] }));
+    const chunks = chunkBySize(
+      messagePayloads,
+      this.maxRequestBytes - envelope,
+      (p) => byteLength(JSON.stringify(p)) + 1
+    );
+    return chunks.map((chunk) => ({ sessions: [], messages: chunk }));
   }
 
   /**
@@ -200,9 +434,12 @@ export class SyncClient {
   }
 
   /**
-   * Transform domain message data into API payload format
+   * Transform domain message data into the payload that would be sent,
+   * after redaction and truncation. With `dryRun`, images aren't saved;
+   * placeholders still show the path they would be saved at.
    */
-  private buildMessagePayload(message: MessageData): MessagePayload {
+  buildMessagePayload(message: MessageData, options: { dryRun?: boolean } = {}): MessagePayload {
+    const dryRun = options.dryRun ?? false;
     const payload: MessagePayload = {
       sessionExternalId: message.sessionId,
       externalId: message.messageId,
@@ -210,10 +447,21 @@ export class SyncClient {
       createdAt: message.timestamp ?? Date.now(),
     };
 
-    if (message.role === "user") {
+    if (message.role === "user" && message.images?.length) {
+      // Images become placeholders in the text, plus image parts carrying
+      // their metadata for dashboards that render parts
+      const images = message.images.map((image) => this.imagePart(image, dryRun));
+      payload.textContent = [message.text, ...images.map((i) => imagePlaceholder(i.content))]
+        .filter(Boolean)
+        .join("\n");
+      payload.parts = [
+        ...(message.text ? [{ type: "text" as const, content: message.text }] : []),
+        ...images,
+      ];
+    } else if (message.role === "user" || message.role === "system") {
       payload.textContent = message.text;
     } else {
-      const includeThinking = message.includeThinking ?? false;
+      const includeThinking = message.includeThinking ?? this.syncThinking;
 
       // Extract plain text from content parts
       const textParts: string[] = [];
@@ -229,15 +477,59 @@ export class SyncClient {
       payload.textContent = textContent || undefined;
       payload.model = message.model;
 
-      if (message.usage) {
-        payload.promptTokens = message.usage.input;
-        payload.completionTokens = message.usage.output;
+      const usage = message.usage;
+      if (usage) {
+        payload.promptTokens = usage.input + usage.cacheRead + usage.cacheWrite;
+        payload.completionTokens = usage.output;
+        if (usage.cacheRead > 0) payload.cacheReadTokens = usage.cacheRead;
+        if (usage.cacheWrite > 0) payload.cacheWriteTokens = usage.cacheWrite;
+        if (usage.cost.total > 0) {
+          const { total, ...costBreakdown } = usage.cost;
+          payload.cost = total;
+          payload.costBreakdown = costBreakdown;
+        }
       }
 
-      const parts = this.buildParts(message, textContent, includeThinking);
+      const parts = this.buildParts(message, textContent, includeThinking, dryRun);
       if (parts.length > 0) payload.parts = parts;
     }
 
+    return this.limitPayload(this.redactPayload(payload));
+  }
+
+  /**
+   * Truncate content so each part fits maxPartBytes. If the message as a
+   * whole would still exceed maxRequestBytes, its parts share that budget
+   * instead. Runs after redaction so a cut never hides part of a secret.
+   */
+  private limitPayload(payload: MessagePayload): MessagePayload {
+    const limited = truncatePayload(payload, this.maxPartBytes);
+    if (byteLength(JSON.stringify(limited)) <= this.maxRequestBytes) return limited;
+
+    const fields = 1 + (payload.parts?.length ?? 0);
+    const shared = Math.floor(this.maxRequestBytes / (fields + 1));
+    this.log({ type: "oversized", externalId: payload.externalId, perPartBytes: shared });
+    return truncatePayload(payload, Math.min(this.maxPartBytes, shared));
+  }
+
+  /**
+   * Replace secrets in every piece of message content: user and assistant
+   * text, thinking, tool call arguments and tool results
+   */
+  private redactPayload(payload: MessagePayload): MessagePayload {
+    if (payload.textContent) {
+      payload.textContent = this.redactor.redact(payload.textContent);
+    }
+    payload.parts = payload.parts?.map((part) => {
+      if (part.type === "image") return part;
+      if (part.type === "tool-call") {
+        return {
+          ...part,
+          content: { ...part.content, args: this.redactor.redactValue(part.content.args) },
+        };
+      }
+      return { ...part, content: this.redactor.redact(part.content) };
+    });
     return payload;
   }
 
@@ -246,14 +538,34 @@ export class SyncClient {
    */
   async syncSession(
     session: SessionData,
-    ctx: ExtensionContext,
+    ctx: Pick<ExtensionContext, "sessionManager">,
     isFinal = false
   ): Promise<SyncResult> {
-    let title = ctx.sessionManager.getSessionName() || "Untitled";
-    if (session.parentSessionId) {
-      title = `[Fork::${session.parentSessionId.slice(0, 8)}] ${title}`;
-    }
+    return this.request("/sync/session", this.buildSessionPayload(session, ctx, isFinal));
+  }
+
+  /**
+   * Store a session update in the outbox without trying to send it
+   */
+  deferSession(
+    session: SessionData,
+    ctx: Pick<ExtensionContext, "sessionManager">,
+    isFinal = false
+  ): SyncResult {
+    const queued = this.enqueue("/sync/session", this.buildSessionPayload(session, ctx, isFinal));
+    return { success: false, error: "Saved to the outbox unsent", queued };
+  }
 
+  /**
+   * Transform session data into API payload format
+   */
+  buildSessionPayload(
+    session: SessionData,
+    ctx: Pick<ExtensionContext, "sessionManager">,
+    isFinal = false
+  ): SessionPayload {
+    // Titles can come from message text or a summary of it, so they're redacted like messages
+    const title = this.redactor.redact(sessionTitle(this.titles, session, ctx.sessionManager));
     const payload: SessionPayload = {
       externalId: session.sessionId,
       source: "pi",
@@ -270,31 +582,37 @@ export class SyncClient {
       payload.completionTokens = session.completionTokens;
       payload.totalTokens = (session.promptTokens ?? 0) + (session.completionTokens ?? 0);
     }
+    if ((session.cacheReadTokens ?? 0) > 0) payload.cacheReadTokens = session.cacheReadTokens;
+    if ((session.cacheWriteTokens ?? 0) > 0) payload.cacheWriteTokens = session.cacheWriteTokens;
 
-    if ((session.cost ?? 0) > 0) payload.cost = session.cost;
+    if ((session.cost ?? 0) > 0) {
+      payload.cost = session.cost;
+      if (session.costBreakdown) payload.costBreakdown = { ...session.costBreakdown };
+    }
     if ((session.messageCount ?? 0) > 0) payload.messageCount = session.messageCount;
+    if (session.models?.length) {
+      payload.modelUsage = session.models.map((usage) => ({
+        ...usage,
+        totalTokens: usage.promptTokens + usage.completionTokens,
+      }));
+    }
+    if (session.git) payload.git = { ...session.git };
+    if (session.tags?.length) payload.tags = [...session.tags];
     if (isFinal && session.startedAt) {
-      payload.durationMs = Date.now() - session.startedAt;
+      payload.durationMs = (session.endedAt ?? Date.now()) - session.startedAt;
     }
 
-    return this.request("/sync/session", payload);
+    return payload;
   }
 
   /**
-   * Test API connectivity via health endpoint
+   * Test that the destination is reachable, via the API health endpoint or
+   * by checking the export directory is writable
    */
   async testConnection(): Promise<SyncResult> {
-    try {
-      const response = await fetch(`${this.siteUrl}/health`);
-      if (response.ok) return { success: true };
-      return { success: false, error: `Health check failed: ${response.status}` };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      return { success: false, error: message };
-    }
+    return this.transport.check();
   }
 
-
   /**
    * Build message parts array for structured content (tool calls, thinking).
    * OpenSync UI only renders parts OR textContent, so we add text as the
@@ -303,10 +621,11 @@ export class SyncClient {
   private buildParts(
     message: AssistantMessageData,
     textContent: string,
-    includeThinking: boolean
+    includeThinking: boolean,
+    dryRun: boolean
   ): MessagePart[] {
     const parts: MessagePart[] = [];
-    const toolResults = message.toolResults ?? [];
+    const toolResults = this.syncToolCalls ? message.toolResults ?? [] : [];
 
     const hasToolCalls = message.content.some((p) => p.type === "toolCall");
     const hasThinking = includeThinking && message.content.some((p) => p.type === "thinking");
@@ -317,22 +636,27 @@ export class SyncClient {
       parts.push({ type: "text", content: textContent });
     }
 
-    // Process content in order, interleaving tool results after their tool calls
-    let resultIndex = 0;
+    // Process content in order, placing each tool result right after its
+    // call. Results are matched by ID since aborted or parallel calls don't
+    // necessarily produce results in call order.
+    const resultsById = new Map(toolResults.map((r) => [r.toolCallId, r]));
     for (const part of message.content) {
       if (part.type === "toolCall") {
         parts.push({
           type: "tool-call",
           content: { toolName: part.name, args: part.arguments },
         });
-        if (resultIndex < toolResults.length) {
-          const result = toolResults[resultIndex];
-          const resultText = result.content
-            .filter((p) => p.type === "text")
-            .map((p) => p.text)
-            .join("\n");
-          parts.push({ type: "tool-result", content: resultText });
-          resultIndex++;
+        const result = resultsById.get(part.id);
+        if (result) {
+          const images = result.content
+            .filter((p) => p.type === "image")
+            .map((p) => this.imagePart(p, dryRun));
+          const resultText = [
+            ...result.content.filter((p) => p.type === "text").map((p) => p.text),
+            ...images.map((i) => imagePlaceholder(i.content)),
+          ].join("\n");
+          parts.push({ type: "tool-result", content: resultText, isError: result.isError });
+          parts.push(...images);
         }
       } else if (part.type === "thinking" && includeThinking) {
         parts.push({ type: "thinking", content: part.thinking });
@@ -344,46 +668,216 @@ export class SyncClient {
   }
 
   /**
-   * Write debug log entry to .pi/opensync-debug.jsonl
+   * Placeholder part for an image, saving a local copy when configured
+   */
+  private imagePart(image: ImageAttachment, dryRun: boolean): ImagePart {
+    const info = describeImage(image.data, image.mimeType);
+    const path = dryRun
+      ? this.images?.pathFor(image.data, image.mimeType)
+      : this.images?.save(image.data, image.mimeType);
+    return { type: "image", content: path ? { ...info, path } : info };
+  }
+
+  /**
+   * Write debug log entry to DEBUG_LOG_FILE
    */
   private log(entry: Record<string, unknown>): void {
     if (!this.debug) return;
     try {
       const logEntry = { timestamp: new Date().toISOString(), ...entry };
-      appendFileSync(".pi/opensync-debug.jsonl", JSON.stringify(logEntry) + "\n");
+      appendFileSync(DEBUG_LOG_FILE, JSON.stringify(logEntry) + "\n");
     } catch { } // Silently fail if we can't write logs
   }
 
   /**
-   * Make authenticated POST request to OpenSync API
+   * Replay queued requests in order. Calls made while a replay is running
+   * wait for that replay instead of starting another.
    */
-  private async request(endpoint: string, data: unknown): Promise<SyncResult> {
-    const url = `${this.siteUrl}${endpoint}`;
-    this.log({ type: "request", endpoint, payload: data });
+  async flushOutbox(): Promise<SyncResult> {
+    if (!this.outbox) return { success: true };
+    this.flushing ??= this.replay(this.outbox).finally(() => {
+      this.flushing = undefined;
+    });
+    return this.flushing;
+  }
 
+  /**
+   * Send queued requests oldest first, removing each from the outbox only
+   * once it was delivered or rejected outright. Stops at the first transient
+   * or authentication failure, leaving that entry and everything after it
+   * queued, so a revoked key doesn't discard what was queued offline.
+   */
+  private async replay(outbox: Outbox): Promise<SyncResult> {
     try {
-      const response = await fetch(url, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify(data),
-      });
-
-      if (!response.ok) {
-        const text = await response.text();
-        this.log({ type: "error", endpoint, status: response.status, error: text });
-        return { success: false, error: `${response.status}: ${text}` };
-      }
+      for (let entry = outbox.peek()[0]; entry; entry = outbox.peek()[0]) {
+        const result = await this.send(entry.endpoint, entry.payload);
+        if (!result.success && (result.retryable || isAuthFailure(result))) {
+          this.replayAfter = Date.now() + this.retry.maxDelayMs;
+          return { success: false, error: result.error };
+        }
 
-      const result = await response.json();
-      this.log({ type: "success", endpoint, response: result });
+        if (!result.success) this.log({ type: "outbox-drop", endpoint: entry.endpoint, error: result.error });
+        outbox.remove(entry);
+      }
       return { success: true };
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      this.log({ type: "exception", endpoint, error: message });
+      this.log({ type: "outbox-error", error: message });
       return { success: false, error: message };
     }
   }
+
+  /**
+   * Number of requests waiting in the outbox
+   */
+  pendingCount(): number {
+    try {
+      return this.outbox?.size() ?? 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Destination URL, outbox depth and the outcome of recent requests
+   */
+  status(): DestinationStatus[] {
+    return [
+      {
+        name: this.name,
+        url: this.transport.target,
+        pending: this.pendingCount(),
+        lastSuccess: this.lastSuccess,
+        lastFailure: this.lastFailure,
+      },
+    ];
+  }
+
+  /**
+   * Send a request, queueing it on transient failure. Queued requests are
+   * replayed first, and while they can't be delivered new requests queue up
+   * behind them, so an old session update never overwrites a newer one.
+   * After a failed replay, new requests go straight to the outbox for
+   * retryMaxDelayMs rather than each waiting out another round of retries.
+   */
+  private async request(endpoint: string, data: unknown): Promise<SyncResult> {
+    if (this.pendingCount() > 0) {
+      if (Date.now() < this.replayAfter) {
+        const queued = this.enqueue(endpoint, data);
+        return { success: false, error: "Waiting to replay queued requests", queued };
+      }
+      const flushed = await this.flushOutbox();
+      if (!flushed.success && this.pendingCount() > 0) {
+        return { success: false, error: flushed.error, queued: this.enqueue(endpoint, data) };
+      }
+    }
+
+    const sent = await this.send(endpoint, data);
+    const result: SyncResult = { success: sent.success, error: sent.error, attempts: sent.attempts };
+    if (!result.success && sent.retryable) result.queued = this.enqueue(endpoint, data);
+    return result;
+  }
+
+  /**
+   * Add a request to the outbox, returning whether it was stored
+   */
+  private enqueue(endpoint: string, data: unknown): boolean {
+    if (!this.outbox) return false;
+    try {
+      this.outbox.enqueue({ endpoint, payload: data, queuedAt: Date.now() });
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.log({ type: "outbox-error", endpoint, error: message });
+      return false;
+    }
+  }
+
+  /**
+   * Deliver a request, retrying transient failures according to the retry
+   * policy. A Retry-After header replaces the computed backoff; if the server
+   * asks for a longer wait than maxDelayMs we give up and let the outbox
+   * take over.
+   */
+  private async send(endpoint: string, data: unknown): Promise<TransportResult> {
+    for (let attempt = 1; ; attempt++) {
+      const result = await this.attempt(endpoint, data, attempt);
+      result.attempts = attempt;
+
+      if (result.success || !result.retryable || attempt > this.retry.maxRetries) {
+        return this.record(endpoint, result);
+      }
+
+      const delayMs = result.retryAfterMs ?? backoffDelay(attempt, this.retry);
+      if (delayMs > this.retry.maxDelayMs) return this.record(endpoint, result);
+
+      this.log({ type: "retry", endpoint, attempt, delayMs, error: result.error });
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+
+  /**
+   * Remember the final outcome of a request for status output
+   */
+  private record(endpoint: string, result: TransportResult): TransportResult {
+    if (result.success) {
+      this.lastSuccess = { endpoint, at: Date.now() };
+    } else {
+      this.lastFailure = { endpoint, at: Date.now(), error: result.error };
+    }
+    return result;
+  }
+
+  /**
+   * Make a single delivery attempt through the transport
+   */
+  private async attempt(endpoint: string, data: unknown, attempt: number): Promise<TransportResult> {
+    this.log({ type: "request", endpoint, attempt, payload: data });
+    const result = await this.transport.send(endpoint, data);
+
+    if (result.success) {
+      this.log({ type: "success", endpoint, attempt, response: result.response });
+    } else {
+      this.log({ type: "error", endpoint, attempt, status: result.status, error: result.error });
+    }
+    return result;
+  }
+}
+
+/**
+ * Transport selected by config: the HTTP API, or local JSONL files
+ */
+function createTransport(config: Config): Transport {
+  if (config.transport === "file") return new FileTransport(config.exportDir);
+  return new HttpTransport({
+    convexUrl: config.convexUrl,
+    apiKey: config.apiKey,
+    gzip: config.gzipRequests,
+  });
+}
+
+/**
+ * Whether the destination rejected the API key. Queued requests are kept
+ * for when the key is fixed.
+ */
+function isAuthFailure(result: TransportResult): boolean {
+  return result.status === 401 || result.status === 403;
+}
+
+/**
+ * Copy of a message payload with text, thinking, tool results and the
+ * serialized tool call arguments truncated to `maxBytes` each
+ */
+function truncatePayload(payload: MessagePayload, maxBytes: number): MessagePayload {
+  return {
+    ...payload,
+    textContent: payload.textContent && truncateText(payload.textContent, maxBytes),
+    parts: payload.parts?.map((part) => {
+      if (part.type === "image") return part;
+      if (part.type === "tool-call") {
+        return { ...part, content: { ...part.content, args: limitValue(part.content.args, maxBytes) } };
+      }
+      return { ...part, content: truncateText(part.content, maxBytes) };
+    }),
+  };
 }
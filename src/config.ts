@@ -1,6 +1,6 @@
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from "node:fs";
 import { homedir } from "node:os";
-import { join } from "node:path";
+import { dirname, join } from "node:path";
 import {
   Container,
   Text,
@@ -13,9 +13,25 @@ import {
 import { getSettingsListTheme, DynamicBorder } from "@mariozechner/pi-coding-agent";
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
 import { SyncClient } from "./client";
+import type { RedactionPattern } from "./redact";
+import type { ProjectMatcher } from "./project";
+import { DEFAULT_PROFILE, type ProfileConfig, type RouteRule } from "./routing";
+import type { TagRule } from "./tags";
+import { TITLE_STRATEGIES, type TitleStrategy } from "./title";
+import { describeToolRules, TOOL_SYNC_RULES, toolRuleFor, type ToolRules, type ToolSyncRule } from "./tools";
 
 const CONFIG_DIR = join(homedir(), ".config", "pi-opensync-plugin");
-const CONFIG_FILE = join(CONFIG_DIR, "config.json");
+export const CONFIG_FILE = join(CONFIG_DIR, "config.json");
+export const LEDGER_FILE = join(CONFIG_DIR, "synced-sessions.json");
+
+/**
+ * Outbox file for a destination. The default profile keeps the original
+ * `outbox.jsonl` so requests queued before profiles existed still replay.
+ */
+export function outboxFile(destination: string): string {
+  if (destination === DEFAULT_PROFILE) return join(CONFIG_DIR, "outbox.jsonl");
+  return join(CONFIG_DIR, `outbox-${destination.replace(/[^A-Za-z0-9_-]/g, "_")}.jsonl`);
+}
 
 /**
  * Configuration interface for pi-opensync-plugin
@@ -23,47 +39,296 @@ const CONFIG_FILE = join(CONFIG_DIR, "config.json");
 export interface Config {
   convexUrl: string;
   apiKey: string;
+  /** Where payloads go: the OpenSync HTTP API, or JSONL files in exportDir */
+  transport: "http" | "file";
+  /** Directory the file transport writes one JSONL file per session to */
+  exportDir: string;
   autoSync: boolean;
   syncToolCalls: boolean;
   syncThinking: boolean;
+  /** Per-tool overrides of how much of each tool call is synced */
+  toolRules: ToolRules;
+  /** How sessions without a name in pi are titled */
+  titleStrategy: TitleStrategy;
+  /** Title for the `template` strategy, e.g. `{project} ({branch}): {message}` */
+  titleTemplate: string;
+  /** Title of forked sessions, where `{title}` is the title the fork would otherwise get */
+  forkTitleTemplate: string;
   debug: boolean;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  /** Longest text, thinking, tool result or tool argument synced before truncation */
+  maxPartBytes: number;
+  /** Largest request body; bigger batches are split and bigger messages truncated */
+  maxRequestBytes: number;
+  /** Compress request bodies with gzip */
+  gzipRequests: boolean;
+  /** Directory to save pasted and tool-generated images in; empty disables saving */
+  imageDir: string;
+  /** Sync only session metadata, never message content */
+  privateMode: boolean;
+  /** Replace well-known credential formats before syncing */
+  redactSecrets: boolean;
+  /** Additional user-defined patterns to redact */
+  redactPatterns: RedactionPattern[];
+  /** Named destinations that routes can send sessions to */
+  profiles: Record<string, ProfileConfig>;
+  /** Rules mapping projects to profiles; the first match wins */
+  routes: RouteRule[];
+  /** When non-empty, only projects matching one of these are synced */
+  include: ProjectMatcher[];
+  /** Projects that are never synced */
+  exclude: ProjectMatcher[];
+  /** Rules tagging sessions automatically by project, model or branch */
+  tagRules: TagRule[];
 }
 
 /**
- * Load configuration from environment variables or config file
+ * Where an effective config value came from, lowest precedence first
  */
-export function loadConfig(): Config | null {
-  const envUrl = process.env.PI_OPENSYNC_CONVEX_URL;
-  const envKey = process.env.PI_OPENSYNC_API_KEY;
-
-  if (envUrl && envKey) {
-    return {
-      convexUrl: envUrl,
-      apiKey: envKey,
-      autoSync: process.env.PI_OPENSYNC_AUTO_SYNC !== "false",
-      syncToolCalls: process.env.PI_OPENSYNC_TOOL_CALLS !== "false",
-      syncThinking: process.env.PI_OPENSYNC_THINKING === "true",
-      debug: process.env.PI_OPENSYNC_DEBUG === "true",
-    };
+export type ConfigSource = "default" | "global" | "project" | "env";
+
+/**
+ * Effective configuration together with the origin of each field
+ */
+export interface ResolvedConfig {
+  config: Config;
+  sources: Record<keyof Config, ConfigSource>;
+  /** Defaults and global config, which project settings may only tighten */
+  base: Config;
+  /** Path of the project-level override file for this directory */
+  projectFile: string;
+}
+
+/**
+ * Value of every setting no config layer sets
+ */
+export const DEFAULT_CONFIG: Config = {
+  convexUrl: "",
+  apiKey: "",
+  transport: "http",
+  exportDir: join(CONFIG_DIR, "export"),
+  autoSync: true,
+  syncToolCalls: true,
+  syncThinking: false,
+  toolRules: {},
+  titleStrategy: "first-message",
+  titleTemplate: "{project}: {message}",
+  forkTitleTemplate: "[Fork::{parent}] {title}",
+  debug: false,
+  maxRetries: 3,
+  retryBaseDelayMs: 500,
+  retryMaxDelayMs: 5_000,
+  maxPartBytes: 50_000,
+  maxRequestBytes: 1_000_000,
+  gzipRequests: false,
+  imageDir: "",
+  privateMode: false,
+  redactSecrets: true,
+  redactPatterns: [],
+  profiles: {},
+  routes: [],
+  include: [],
+  exclude: [],
+  tagRules: [],
+};
+
+/**
+ * Environment variable for each config field that can be set that way
+ */
+export const CONFIG_ENV_VARS: Partial<Record<keyof Config, string>> = {
+  convexUrl: "PI_OPENSYNC_CONVEX_URL",
+  apiKey: "PI_OPENSYNC_API_KEY",
+  transport: "PI_OPENSYNC_TRANSPORT",
+  exportDir: "PI_OPENSYNC_EXPORT_DIR",
+  autoSync: "PI_OPENSYNC_AUTO_SYNC",
+  syncToolCalls: "PI_OPENSYNC_TOOL_CALLS",
+  syncThinking: "PI_OPENSYNC_THINKING",
+  titleStrategy: "PI_OPENSYNC_TITLE_STRATEGY",
+  titleTemplate: "PI_OPENSYNC_TITLE_TEMPLATE",
+  debug: "PI_OPENSYNC_DEBUG",
+  maxRetries: "PI_OPENSYNC_MAX_RETRIES",
+  retryBaseDelayMs: "PI_OPENSYNC_RETRY_BASE_DELAY_MS",
+  retryMaxDelayMs: "PI_OPENSYNC_RETRY_MAX_DELAY_MS",
+  redactSecrets: "PI_OPENSYNC_REDACT_SECRETS",
+  privateMode: "PI_OPENSYNC_PRIVATE",
+  maxPartBytes: "PI_OPENSYNC_MAX_PART_BYTES",
+  maxRequestBytes: "PI_OPENSYNC_MAX_REQUEST_BYTES",
+  gzipRequests: "PI_OPENSYNC_GZIP",
+  imageDir: "PI_OPENSYNC_IMAGE_DIR",
+};
+
+/**
+ * Path of the project-level override file for a working directory
+ */
+export function projectConfigPath(cwd: string): string {
+  return join(cwd, ".pi", "opensync.json");
+}
+
+/**
+ * Fields a project's `.pi/opensync.json` may set, and for those that affect
+ * what is synced, the only value that differs from the user's own config it
+ * may set them to. Repositories are often cloned from elsewhere, so they can
+ * make syncing stricter but never looser, and never change where sessions
+ * go or which credentials are used.
+ */
+const PROJECT_FIELDS: Partial<Record<keyof Config, boolean | "any">> = {
+  autoSync: false,
+  syncToolCalls: false,
+  syncThinking: false,
+  privateMode: true,
+  redactSecrets: true,
+  toolRules: "any",
+  titleStrategy: "any",
+  titleTemplate: "any",
+};
+
+/**
+ * Whether a project config file may set a field to a value, given the
+ * config below it. Tool rules may only be made stricter for every tool.
+ */
+export function isProjectSetting<K extends keyof Config>(key: K, value: Config[K], base: Config): boolean {
+  const allowed = PROJECT_FIELDS[key];
+  if (allowed === undefined) return false;
+  if (key === "toolRules") {
+    const rules = mergeToolRules(base.toolRules, value as ToolRules);
+    return Object.keys(rules).every((name) => toolRuleFor(value as ToolRules, name) === rules[name]);
   }
+  return allowed === "any" || value === allowed || value === base[key];
+}
 
-  // Fall back to config file
+/**
+ * Tool rules combining two sets, where the stricter rule for each tool wins
+ */
+function mergeToolRules(base: ToolRules, overrides: ToolRules): ToolRules {
+  const rules: ToolRules = {};
+  for (const name of new Set([...Object.keys(base), ...Object.keys(overrides)])) {
+    const strictest = Math.max(
+      TOOL_SYNC_RULES.indexOf(toolRuleFor(base, name)),
+      TOOL_SYNC_RULES.indexOf(toolRuleFor(overrides, name))
+    );
+    rules[name] = TOOL_SYNC_RULES[strictest];
+  }
+  return rules;
+}
+
+/**
+ * Project file fields that projects are allowed to set. Tool rules are
+ * merged with the base config's, so a project can add rules but not drop
+ * or relax them.
+ */
+function projectOverrides(base: Config, fields: Partial<Config>): Partial<Config> {
+  const overrides: Partial<Record<keyof Config, unknown>> = {};
+  for (const [key, value] of Object.entries(fields) as [keyof Config, Config[keyof Config]][]) {
+    if (key === "toolRules") {
+      overrides.toolRules = mergeToolRules(base.toolRules, value as ToolRules);
+    } else if (isProjectSetting<keyof Config>(key, value, base)) {
+      overrides[key] = value;
+    }
+  }
+  return overrides as Partial<Config>;
+}
+
+/**
+ * Read a JSON config file, keeping only known fields whose type matches the
+ * default. Missing or invalid files yield no overrides.
+ */
+function readConfigFile(path: string): Partial<Config> {
   try {
-    if (existsSync(CONFIG_FILE)) {
-      const data = readFileSync(CONFIG_FILE, "utf-8");
-      const parsed = JSON.parse(data);
-      return {
-        convexUrl: parsed.convexUrl ?? "",
-        apiKey: parsed.apiKey ?? "",
-        autoSync: parsed.autoSync ?? true,
-        syncToolCalls: parsed.syncToolCalls ?? true,
-        syncThinking: parsed.syncThinking ?? false,
-        debug: parsed.debug ?? false,
-      };
+    if (!existsSync(path)) return {};
+    const parsed = JSON.parse(readFileSync(path, "utf-8"));
+    if (!parsed || typeof parsed !== "object") return {};
+
+    const fields: Partial<Record<keyof Config, unknown>> = {};
+    for (const key of Object.keys(DEFAULT_CONFIG) as (keyof Config)[]) {
+      const value = parsed[key];
+      const expected = DEFAULT_CONFIG[key];
+      const matches = Array.isArray(expected)
+        ? Array.isArray(value)
+        : typeof expected === "object"
+          ? value !== null && typeof value === "object" && !Array.isArray(value)
+          : typeof value === typeof expected;
+      if (matches) {
+        fields[key] = value;
+      }
     }
-  } catch { } // Config file doesn't exist or is invalid - return null to skip syncing
+    return fields as Partial<Config>;
+  } catch {
+    return {}; // Invalid file - treat as if it didn't exist
+  }
+}
+
+/**
+ * Parse env var overrides. Values that don't parse for the field's type
+ * are ignored rather than clobbering file settings.
+ */
+function readEnv(): Partial<Config> {
+  const fields: Partial<Record<keyof Config, unknown>> = {};
+  for (const [key, name] of Object.entries(CONFIG_ENV_VARS) as [keyof Config, string][]) {
+    const raw = process.env[name];
+    if (!raw) continue;
 
-  return null;
+    const expected = DEFAULT_CONFIG[key];
+    if (typeof expected === "boolean") {
+      if (/^(true|1|yes)$/i.test(raw)) fields[key] = true;
+      else if (/^(false|0|no)$/i.test(raw)) fields[key] = false;
+    } else if (typeof expected === "number") {
+      const value = Number(raw);
+      if (Number.isInteger(value) && value >= 0) fields[key] = value;
+    } else {
+      fields[key] = raw;
+    }
+  }
+  return fields as Partial<Config>;
+}
+
+/**
+ * Resolve the effective configuration for a directory. Layers are applied
+ * field by field: defaults, then the global config file, then the project's
+ * `.pi/opensync.json` (limited to the fields projects may set), then
+ * environment variables.
+ */
+export function resolveConfig(cwd = process.cwd(), globalFile = CONFIG_FILE): ResolvedConfig {
+  const projectFile = projectConfigPath(cwd);
+  const config = { ...DEFAULT_CONFIG };
+  const sources = Object.fromEntries(
+    Object.keys(DEFAULT_CONFIG).map((key) => [key, "default"])
+  ) as Record<keyof Config, ConfigSource>;
+
+  const global = readConfigFile(globalFile);
+  const base = { ...DEFAULT_CONFIG, ...global };
+  const layers: [ConfigSource, Partial<Config>][] = [
+    ["global", global],
+    ["project", projectOverrides(base, readConfigFile(projectFile))],
+    ["env", readEnv()],
+  ];
+
+  for (const [source, fields] of layers) {
+    for (const [key, value] of Object.entries(fields)) {
+      (config as Record<string, unknown>)[key] = value;
+      sources[key as keyof Config] = source;
+    }
+  }
+
+  return { config, sources, base, projectFile };
+}
+
+/**
+ * Whether a config has what its transport needs: a Convex URL and API key
+ * for HTTP, nothing extra for the file transport
+ */
+export function isConfigured(config: Config): boolean {
+  return config.transport === "file" || Boolean(config.convexUrl && config.apiKey);
+}
+
+/**
+ * Load the effective configuration, or null when it's missing what
+ * syncing needs
+ */
+export function loadConfig(cwd = process.cwd(), globalFile = CONFIG_FILE): Config | null {
+  const { config } = resolveConfig(cwd, globalFile);
+  return isConfigured(config) ? config : null;
 }
 
 /**
@@ -135,36 +400,67 @@ export interface ConfigSelectorCallbacks {
   requestRender: () => void;
 }
 
+const SOURCE_LABELS: Record<ConfigSource, string> = {
+  default: "default",
+  global: "global config",
+  project: "project .pi/opensync.json",
+  env: "environment",
+};
+
+const SAVE_GLOBAL = "Save to global config";
+const SAVE_PROJECT = "Save to project config (.pi/opensync.json)";
+const DISCARD = "Discard changes";
+
 /**
- * Interactive configuration selector component
+ * Merge changed fields into a config file, preserving whatever else it holds
+ */
+function writeConfigFile(path: string, changes: Partial<Config>): void {
+  let existing: Record<string, unknown> = {};
+  try {
+    if (existsSync(path)) existing = JSON.parse(readFileSync(path, "utf-8"));
+  } catch { } // Overwrite an unparseable file rather than refusing to save
+
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify({ ...existing, ...changes }, null, 2));
+}
+
+/**
+ * Interactive configuration selector component.
+ *
+ * Shows the effective value of every setting along with the layer it came
+ * from. Only fields edited in this session are written, to either the
+ * global config file or the project override file.
  */
 export class ConfigSelectorComponent {
   private container: typeof Container.prototype;
   private settingsList: typeof SettingsList.prototype;
   private ctx: ExtensionContext;
+  private resolved: ResolvedConfig;
   private config: Config;
+  private changes: Partial<Config> = {};
+  private toolNames: string[];
   private onClose: () => void;
 
   constructor(
-    currentConfig: Config | null,
+    resolved: ResolvedConfig,
     ctx: ExtensionContext,
-    callbacks: ConfigSelectorCallbacks
+    callbacks: ConfigSelectorCallbacks,
+    toolNames: string[] = []
   ) {
     this.ctx = ctx;
-    this.config = currentConfig ?? {
-      convexUrl: "https://your-app.convex.cloud",
-      apiKey: "osk_",
-      autoSync: true,
-      syncToolCalls: true,
-      syncThinking: false,
-      debug: false,
+    this.resolved = resolved;
+    this.toolNames = toolNames;
+    this.config = {
+      ...resolved.config,
+      convexUrl: resolved.config.convexUrl || "https://your-app.convex.cloud",
+      apiKey: resolved.config.apiKey || "osk_",
     };
 
     const items: SettingItem[] = [
       {
         id: "convex-url",
         label: "Convex URL",
-        description: "Your OpenSync Convex deployment URL",
+        description: this.describe("convexUrl", "Your OpenSync Convex deployment URL"),
         currentValue: this.config.convexUrl,
         submenu: (current, done) => {
           return createTextInputSubmenu(
@@ -172,7 +468,7 @@ export class ConfigSelectorComponent {
             "Enter your OpenSync Convex URL",
             current,
             (value) => {
-              this.config.convexUrl = value;
+              this.set("convexUrl", value);
               done(value);
             },
             () => done()
@@ -182,7 +478,7 @@ export class ConfigSelectorComponent {
       {
         id: "api-key",
         label: "API Key",
-        description: "Your OpenSync API key (osk_...)",
+        description: this.describe("apiKey", "Your OpenSync API key (osk_...)"),
         currentValue: this.config.apiKey.slice(0, 12) + "...",
         submenu: (_current, done) => {
           return createTextInputSubmenu(
@@ -190,38 +486,124 @@ export class ConfigSelectorComponent {
             "Enter your OpenSync API key",
             this.config.apiKey,
             (value) => {
-              this.config.apiKey = value;
+              this.set("apiKey", value);
               done(value.slice(0, 12) + "...");
             },
             () => done()
           );
         },
       },
+      {
+        id: "transport",
+        label: "Transport",
+        description: this.describe(
+          "transport",
+          "Send to the OpenSync API (http) or write JSONL files to the export directory (file)"
+        ),
+        currentValue: this.config.transport,
+        values: ["http", "file"],
+      },
+      {
+        id: "export-dir",
+        label: "Export Directory",
+        description: this.describe("exportDir", "Where the file transport writes one JSONL file per session"),
+        currentValue: this.config.exportDir,
+        submenu: (current, done) => {
+          return createTextInputSubmenu(
+            "Export Directory",
+            "Enter the directory to write session files to",
+            current,
+            (value) => {
+              this.set("exportDir", value);
+              done(value);
+            },
+            () => done()
+          );
+        },
+      },
       {
         id: "auto-sync",
         label: "Auto Sync",
-        description: "Automatically sync sessions to OpenSync",
+        description: this.describe("autoSync", "Automatically sync sessions to OpenSync"),
         currentValue: this.config.autoSync ? "true" : "false",
         values: ["true", "false"],
       },
       {
         id: "sync-tool-calls",
         label: "Sync Tool Calls",
-        description: "Include tool calls and results in synced messages",
+        description: this.describe("syncToolCalls", "Include tool calls and results in synced messages"),
         currentValue: this.config.syncToolCalls ? "true" : "false",
         values: ["true", "false"],
       },
       {
         id: "sync-thinking",
         label: "Sync Thinking",
-        description: "Include model reasoning/thinking in messages",
+        description: this.describe("syncThinking", "Include model reasoning/thinking in messages"),
         currentValue: this.config.syncThinking ? "true" : "false",
         values: ["true", "false"],
       },
+      {
+        id: "tool-rules",
+        label: "Tool Rules",
+        description: this.describe(
+          "toolRules",
+          "Per tool: sync the call and result (all), the call only (call), or nothing (none)"
+        ),
+        currentValue: describeToolRules(this.config.toolRules),
+        submenu: (_current, done) => this.createToolRulesSubmenu(done),
+      },
+      {
+        id: "title-strategy",
+        label: "Title Strategy",
+        description: this.describe(
+          "titleStrategy",
+          "How sessions without a name are titled: first message, template, or a summary at shutdown"
+        ),
+        currentValue: this.config.titleStrategy,
+        values: TITLE_STRATEGIES,
+      },
+      {
+        id: "title-template",
+        label: "Title Template",
+        description: this.describe(
+          "titleTemplate",
+          "Title for the template strategy: {project}, {branch}, {date}, {parent}, {message}"
+        ),
+        currentValue: this.config.titleTemplate,
+        submenu: (current, done) => {
+          return createTextInputSubmenu(
+            "Title Template",
+            "Enter the title template",
+            current,
+            (value) => {
+              this.set("titleTemplate", value);
+              done(value);
+            },
+            () => done()
+          );
+        },
+      },
+      {
+        id: "redact-secrets",
+        label: "Redact Secrets",
+        description: this.describe(
+          "redactSecrets",
+          "Replace API keys, tokens and private keys with [REDACTED:type] markers"
+        ),
+        currentValue: this.config.redactSecrets ? "true" : "false",
+        values: ["true", "false"],
+      },
+      {
+        id: "max-retries",
+        label: "Max Retries",
+        description: this.describe("maxRetries", "Retries for rate-limited, failing or unreachable requests"),
+        currentValue: String(this.config.maxRetries),
+        values: ["0", "1", "2", "3", "5"],
+      },
       {
         id: "debug",
         label: "Debug Mode",
-        description: "Enable debug logging",
+        description: this.describe("debug", "Enable debug logging"),
         currentValue: this.config.debug ? "true" : "false",
         values: ["true", "false"],
       },
@@ -245,31 +627,98 @@ export class ConfigSelectorComponent {
     this.container.addChild(new DynamicBorder((s: string) => s));
   }
 
+  /**
+   * Append the value's origin to a setting description, warning when an
+   * environment variable will override anything saved here
+   */
+  private describe(key: keyof Config, text: string): string {
+    const source = this.resolved.sources[key];
+    const envVar = CONFIG_ENV_VARS[key];
+    if (source === "env" && envVar) {
+      return `${text} (from ${envVar}, overrides saved values)`;
+    }
+    return `${text} (from ${SOURCE_LABELS[source]})`;
+  }
+
+  /**
+   * Nested list with one entry per tool, cycling through the sync rules.
+   * Lists every tool pi knows about plus any that already have a rule.
+   */
+  private createToolRulesSubmenu(done: (value?: string) => void) {
+    const names = [...new Set([...this.toolNames, ...Object.keys(this.config.toolRules)])].sort();
+    const items: SettingItem[] = names.map((name) => ({
+      id: name,
+      label: name,
+      currentValue: toolRuleFor(this.config.toolRules, name),
+      values: TOOL_SYNC_RULES,
+    }));
+
+    return new SettingsList(
+      items,
+      Math.min(items.length + 2, 15),
+      getSettingsListTheme(),
+      (name, value) => {
+        const { [name]: _previous, ...rest } = this.config.toolRules;
+        // "all" is the default, so it's stored by removing the rule
+        this.set("toolRules", value === "all" ? rest : { ...rest, [name]: value as ToolSyncRule });
+      },
+      () => done(describeToolRules(this.config.toolRules)),
+      { enableSearch: true }
+    );
+  }
+
+  private set<K extends keyof Config>(key: K, value: Config[K]): void {
+    this.config[key] = value;
+    this.changes[key] = value;
+  }
+
   private handleValueChange = (id: string, newValue: string): void => {
     const boolValue = newValue === "true";
     switch (id) {
+      case "transport":
+        this.set("transport", newValue === "file" ? "file" : "http");
+        break;
+      case "title-strategy":
+        this.set("titleStrategy", newValue as TitleStrategy);
+        break;
       case "auto-sync":
-        this.config.autoSync = boolValue;
+        this.set("autoSync", boolValue);
         break;
       case "sync-tool-calls":
-        this.config.syncToolCalls = boolValue;
+        this.set("syncToolCalls", boolValue);
         break;
       case "sync-thinking":
-        this.config.syncThinking = boolValue;
+        this.set("syncThinking", boolValue);
         break;
       case "debug":
-        this.config.debug = boolValue;
+        this.set("debug", boolValue);
+        break;
+      case "redact-secrets":
+        this.set("redactSecrets", boolValue);
+        break;
+      case "max-retries":
+        this.set("maxRetries", Number(newValue));
         break;
     }
   };
 
   private handleClose = async (): Promise<void> => {
-    const save = await this.ctx.ui.confirm(
+    if (Object.keys(this.changes).length === 0) {
+      this.onClose();
+      return;
+    }
+
+    // Destinations and credentials only ever come from the global config,
+    // and a project can only make syncing stricter than it
+    const projectAllowed = (Object.keys(this.changes) as (keyof Config)[]).every((key) =>
+      isProjectSetting(key, this.changes[key]!, this.resolved.base)
+    );
+    const target = await this.ctx.ui.select(
       "Save Configuration",
-      "Save changes to OpenSync configuration?"
+      projectAllowed ? [SAVE_GLOBAL, SAVE_PROJECT, DISCARD] : [SAVE_GLOBAL, DISCARD]
     );
 
-    if (!save) {
+    if (!target || target === DISCARD) {
       this.onClose();
       return;
     }
@@ -288,13 +737,19 @@ export class ConfigSelectorComponent {
       }
     }
 
+    const path = target === SAVE_PROJECT ? this.resolved.projectFile : CONFIG_FILE;
     try {
-      if (!existsSync(CONFIG_DIR)) {
-        mkdirSync(CONFIG_DIR, { recursive: true });
-      }
-      writeFileSync(CONFIG_FILE, JSON.stringify(this.config, null, 2));
+      writeConfigFile(path, this.changes);
+
+      const shadowed = (Object.keys(this.changes) as (keyof Config)[])
+        .filter((key) => this.resolved.sources[key] === "env")
+        .map((key) => CONFIG_ENV_VARS[key]);
+      const envNote = shadowed.length > 0
+        ? `\n\nNote: ${shadowed.join(", ")} still override${shadowed.length === 1 ? "s" : ""} the saved value.`
+        : "";
+
       this.ctx.ui.notify(
-        `Config saved to ${CONFIG_FILE}\n\nRestart pi or use /reload to apply changes.`,
+        `Config saved to ${path}\n\nRestart pi or use /reload to apply changes.${envNote}`,
         "info"
       );
     } catch (error) {
@@ -0,0 +1,506 @@
+import { accessSync, constants, existsSync, readFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { DEBUG_LOG_FILE } from "./client";
+import {
+  CONFIG_ENV_VARS,
+  CONFIG_FILE,
+  outboxFile,
+  resolveConfig,
+  type Config,
+  type ResolvedConfig,
+} from "./config";
+import { LOCK_STALE_MS } from "./lock";
+import { Outbox } from "./outbox";
+import { DEFAULT_PROFILE } from "./routing";
+import { formatAgo } from "./status";
+import { FileTransport, HttpTransport, type TransportResult } from "./transport";
+
+/** How long each network check waits for a response */
+export const DOCTOR_TIMEOUT_MS = 10_000;
+
+/** Placeholder URL the config UI starts from */
+const PLACEHOLDER_HOST = "your-app.convex.cloud";
+
+/**
+ * Outcome of one /opensync:doctor check
+ */
+export interface DoctorCheck {
+  name: string;
+  ok: boolean;
+  /** What was found */
+  detail: string;
+  /** What to change when the check failed */
+  fix?: string;
+}
+
+export interface DoctorOptions {
+  globalFile?: string;
+  outboxFile?: (destination: string) => string;
+  timeoutMs?: number;
+}
+
+/**
+ * Destination checked by the doctor, with where its URL and key are set
+ * so fixes can point at the right place
+ */
+interface DoctorDestination {
+  name: string;
+  config: Config;
+  setting: (key: "convexUrl" | "apiKey") => string;
+}
+
+/**
+ * Check the OpenSync setup for a working directory: config files, each
+ * destination's URL, API key and reachability, the debug log and the
+ * outboxes. Checks that depend on an earlier one are skipped when it fails.
+ */
+export async function runDoctor(cwd: string, options: DoctorOptions = {}): Promise<DoctorCheck[]> {
+  const globalFile = options.globalFile ?? CONFIG_FILE;
+  const timeoutMs = options.timeoutMs ?? DOCTOR_TIMEOUT_MS;
+  const resolved = resolveConfig(cwd, globalFile);
+  const checks: DoctorCheck[] = [];
+
+  checks.push(checkConfigFile("Global config", globalFile) ?? {
+    name: "Global config",
+    ok: true,
+    detail: `${globalFile} doesn't exist, using defaults and environment variables`,
+  });
+  const project = checkConfigFile("Project config", resolved.projectFile);
+  if (project) checks.push(project);
+
+  const destinations = doctorDestinations(resolved);
+  for (const destination of destinations) {
+    const label = (name: string) => (destinations.length > 1 ? `${name} (${destination.name})` : name);
+
+    if (destination.config.transport === "file") {
+      const result = await new FileTransport(destination.config.exportDir).check();
+      checks.push({
+        name: label("Export directory"),
+        ok: result.success,
+        detail: result.success ? `${destination.config.exportDir} is writable` : `${result.error}`,
+        fix: result.success ? undefined : `Point exportDir at a directory you can write to`,
+      });
+    } else {
+      checks.push(...(await checkHttp(destination, label, timeoutMs)));
+    }
+  }
+
+  checks.push(checkDebugLog(cwd, resolved.config.debug));
+
+  for (const destination of destinations) {
+    const path = (options.outboxFile ?? outboxFile)(destination.name);
+    const name = destinations.length > 1 ? `Outbox (${destination.name})` : "Outbox";
+    checks.push(checkOutbox(name, path));
+  }
+
+  return checks;
+}
+
+/**
+ * Render doctor results as the text shown by /opensync:doctor
+ */
+export function formatDoctor(checks: DoctorCheck[]): string {
+  const lines = ["OpenSync doctor"];
+  for (const check of checks) {
+    lines.push(`${check.ok ? "✓" : "✗"} ${check.name}: ${check.detail}`);
+    if (!check.ok && check.fix) lines.push(`  Fix: ${check.fix}`);
+  }
+
+  const failed = checks.filter((check) => !check.ok).length;
+  lines.push("", failed === 0 ? "All checks passed" : `${failed} of ${checks.length} checks failed`);
+  return lines.join("\n");
+}
+
+/**
+ * The default destination plus every profile, each with the profile's
+ * overrides applied
+ */
+function doctorDestinations(resolved: ResolvedConfig): DoctorDestination[] {
+  const { config, sources } = resolved;
+  const destinations: DoctorDestination[] = [
+    {
+      name: DEFAULT_PROFILE,
+      config,
+      setting: (key) =>
+        sources[key] === "env"
+          ? `the ${CONFIG_ENV_VARS[key]} environment variable`
+          : `${key} with /opensync:config`,
+    },
+  ];
+
+  for (const [name, profile] of Object.entries(config.profiles)) {
+    destinations.push({
+      name,
+      config: { ...config, ...profile },
+      setting: (key) =>
+        profile[key] !== undefined ? `profiles.${name}.${key}` : `${key} with /opensync:config`,
+    });
+  }
+  return destinations;
+}
+
+/**
+ * Check a config file is a JSON object, pointing at the line and column of
+ * a syntax error. Returns undefined when the file doesn't exist.
+ */
+function checkConfigFile(name: string, path: string): DoctorCheck | undefined {
+  if (!existsSync(path)) return undefined;
+
+  let text: string;
+  try {
+    text = readFileSync(path, "utf-8");
+  } catch (error) {
+    return unreadable(name, path, error);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    const syntax = findJsonError(text);
+    const where = syntax ? ` at ${describeOffset(text, syntax.offset)}` : "";
+    return {
+      name,
+      ok: false,
+      detail:
+        `${path} is not valid JSON${where} (${syntax?.message ?? errorMessage(error)}), ` +
+        "so all of its settings are ignored",
+      fix: `Correct the JSON${where}, or delete the file and run /opensync:config to write a new one`,
+    };
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return {
+      name,
+      ok: false,
+      detail:
+        `${path} holds ${Array.isArray(parsed) ? "an array" : String(parsed)} ` +
+        "instead of an object of settings, so it is ignored",
+      fix: 'Put the settings in a JSON object, e.g. { "convexUrl": "https://your-app.convex.cloud" }',
+    };
+  }
+  return { name, ok: true, detail: `${path} is valid JSON` };
+}
+
+/**
+ * URL, API key, health and authentication checks for an HTTP destination
+ */
+async function checkHttp(
+  destination: DoctorDestination,
+  label: (name: string) => string,
+  timeoutMs: number
+): Promise<DoctorCheck[]> {
+  const { convexUrl, apiKey } = destination.config;
+  const url = checkUrl(convexUrl, destination.setting("convexUrl"));
+  const key = checkApiKey(apiKey, destination.setting("apiKey"));
+  const checks: DoctorCheck[] = [
+    { ...url, name: label("Convex URL") },
+    { ...key, name: label("API key") },
+  ];
+  if (!url.ok) return checks;
+
+  const transport = new HttpTransport({ convexUrl, apiKey });
+  const health = await withTimeout(transport.check(), timeoutMs);
+  checks.push({
+    name: label("Health"),
+    ok: health.success,
+    detail: `${transport.target}/health ${health.success ? "responded" : `failed: ${health.error}`}`,
+    fix: health.success
+      ? undefined
+      : /\b404\b/.test(health.error ?? "")
+        ? `The deployment has no /health endpoint; check ${destination.setting("convexUrl")} ` +
+          "points at your OpenSync deployment"
+        : "Check the deployment is running and reachable from this machine (network, proxy or VPN)",
+  });
+  if (!health.success || !key.ok) return checks;
+
+  // An empty batch is authenticated like any other request but stores nothing
+  const auth = await withTimeout(transport.send("/sync/batch", { sessions: [], messages: [] }), timeoutMs);
+  const rejected = auth.status === 401 || auth.status === 403;
+  checks.push({
+    name: label("Authentication"),
+    ok: auth.success,
+    detail: auth.success ? "Test request was accepted" : `Test request failed: ${auth.error}`,
+    fix: auth.success
+      ? undefined
+      : rejected
+        ? `The API key was rejected; create a new key in OpenSync's settings and update ` +
+          destination.setting("apiKey")
+        : auth.status === 404
+          ? "The deployment has no /sync/batch endpoint; update your OpenSync deployment"
+          : "Try again; if it keeps failing, turn on debug and check the response in the debug log",
+  });
+  return checks;
+}
+
+function checkUrl(url: string, setting: string): Omit<DoctorCheck, "name"> {
+  const example = "e.g. https://your-app.convex.cloud";
+  if (!url) return { ok: false, detail: "Not set", fix: `Set ${setting} to your deployment URL, ${example}` };
+  if (url !== url.trim()) {
+    return { ok: false, detail: `"${url}" has spaces around it`, fix: `Remove the spaces from ${setting}` };
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return {
+      ok: false,
+      detail: `"${url}" is not a URL`,
+      fix: `Set ${setting} to the full URL including https://, ${example}`,
+    };
+  }
+
+  if (parsed.protocol !== "https:" && !(parsed.protocol === "http:" && isLocalHost(parsed.hostname))) {
+    return { ok: false, detail: `${url} doesn't use https`, fix: `Change ${setting} to start with https://` };
+  }
+  if (parsed.pathname !== "/" || parsed.search || parsed.hash || url.endsWith("/")) {
+    return {
+      ok: false,
+      detail: `${url} has a path, so requests would go to the wrong address`,
+      fix: `Set ${setting} to just ${parsed.origin}`,
+    };
+  }
+  if (parsed.hostname === PLACEHOLDER_HOST) {
+    return {
+      ok: false,
+      detail: `${url} is the example URL`,
+      fix: `Set ${setting} to your deployment's URL from the Convex dashboard`,
+    };
+  }
+
+  if (parsed.hostname.endsWith(".convex.cloud")) {
+    const site = parsed.origin.replace(".convex.cloud", ".convex.site");
+    return { ok: true, detail: `${url} (HTTP requests go to ${site}, where Convex serves them)` };
+  }
+  if (parsed.hostname.endsWith(".convex.site")) return { ok: true, detail: url };
+  return { ok: true, detail: `${url} (not a Convex cloud URL, used as is)` };
+}
+
+function checkApiKey(apiKey: string, setting: string): Omit<DoctorCheck, "name"> {
+  const create = "create one in OpenSync's settings";
+  if (!apiKey) return { ok: false, detail: "Not set", fix: `Set ${setting}; ${create}` };
+  if (apiKey !== apiKey.trim()) {
+    return { ok: false, detail: "Has spaces or a line break around it", fix: `Remove them from ${setting}` };
+  }
+  if (!apiKey.startsWith("osk_")) {
+    return {
+      ok: false,
+      detail: "Doesn't start with osk_, so it isn't an OpenSync API key",
+      fix: `Set ${setting} to an OpenSync API key rather than a Convex deploy key; ${create}`,
+    };
+  }
+  if (apiKey === "osk_") {
+    return { ok: false, detail: "Only the osk_ prefix is set", fix: `Paste the whole key into ${setting}` };
+  }
+  if (!/^osk_[A-Za-z0-9_-]+$/.test(apiKey)) {
+    return {
+      ok: false,
+      detail: "Contains characters OpenSync keys never have",
+      fix: `Copy the key into ${setting} again, without quotes or extra characters`,
+    };
+  }
+  return { ok: true, detail: `osk_…${apiKey.slice(-4)}` };
+}
+
+/**
+ * Check the debug log can be written. The client appends to it without
+ * creating directories, so a missing `.pi` directory drops every entry.
+ * That only matters with debug logging on, so otherwise it's informational.
+ */
+function checkDebugLog(cwd: string, debug: boolean): DoctorCheck {
+  const name = "Debug log";
+  const path = resolve(cwd, DEBUG_LOG_FILE);
+  const dir = dirname(path);
+
+  let problem: { detail: string; fix: string } | undefined;
+  if (!existsSync(dir)) {
+    problem = { detail: `${dir} doesn't exist`, fix: `Create it with mkdir -p ${dir}` };
+  } else {
+    const target = existsSync(path) ? path : dir;
+    try {
+      accessSync(target, constants.W_OK);
+    } catch (error) {
+      problem = {
+        detail: `${path} isn't writable: ${errorMessage(error)}`,
+        fix: `Check the permissions of ${target}`,
+      };
+    }
+  }
+
+  if (!debug) {
+    const where = problem ? `${problem.detail}, which only matters with debug on` : `would write to ${path}`;
+    return { name, ok: true, detail: `Off; ${where}` };
+  }
+  if (problem) return { name, ok: false, ...problem };
+  return { name, ok: true, detail: `${path} is writable` };
+}
+
+/**
+ * Report requests waiting in an outbox and locks left behind by a crashed
+ * process
+ */
+function checkOutbox(name: string, path: string): DoctorCheck {
+  const outbox = new Outbox(path);
+  let entries;
+  try {
+    entries = outbox.peek();
+  } catch (error) {
+    return unreadable(name, path, error);
+  }
+
+  const lockAge = outbox.lockAge();
+  const lock =
+    lockAge !== undefined && lockAge > LOCK_STALE_MS
+      ? `, stale lock from ${formatAgo(lockAge)} is removed on the next sync`
+      : "";
+
+  if (entries.length === 0) return { name, ok: true, detail: `Empty${lock}` };
+
+  const oldest = Math.min(...entries.map((entry) => entry.queuedAt));
+  const count = `${entries.length} request${entries.length === 1 ? "" : "s"}`;
+  return {
+    name,
+    ok: false,
+    detail: `${count} waiting in ${path}, oldest queued ${formatAgo(Date.now() - oldest)}${lock}`,
+    fix: "They're replayed at the start of the next session; fix any failing checks above if they stay queued",
+  };
+}
+
+function isLocalHost(hostname: string): boolean {
+  return hostname === "localhost" || hostname === "127.0.0.1" || hostname === "[::1]";
+}
+
+async function withTimeout(request: Promise<TransportResult>, timeoutMs: number): Promise<TransportResult> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<TransportResult>((resolve) => {
+    const error = `No response after ${timeoutMs / 1000}s`;
+    timer = setTimeout(() => resolve({ success: false, error }), timeoutMs);
+  });
+  try {
+    return await Promise.race([request, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function unreadable(name: string, path: string, error: unknown): DoctorCheck {
+  return {
+    name,
+    ok: false,
+    detail: `Can't read ${path}: ${errorMessage(error)}`,
+    fix: `Check the permissions of ${path}`,
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * 1-based line and column of an offset in text
+ */
+function describeOffset(text: string, offset: number): string {
+  const lines = text.slice(0, offset).split("\n");
+  return `line ${lines.length}, column ${lines[lines.length - 1].length + 1}`;
+}
+
+/** Keyword or number at the start of the remaining text */
+const JSON_LITERAL = /^(?:true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?)/;
+
+class JsonSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly offset: number
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Find where JSON text stops being valid. Not every runtime's JSON.parse
+ * reports a position, so the text is scanned here instead.
+ */
+function findJsonError(text: string): JsonSyntaxError | undefined {
+  let pos = 0;
+
+  function fail(expected: string): never {
+    const found = pos < text.length ? JSON.stringify(text.charAt(pos)) : "the end of the file";
+    throw new JsonSyntaxError(`expected ${expected}, found ${found}`, pos);
+  }
+
+  function space(): void {
+    while (/[ \t\n\r]/.test(text.charAt(pos))) pos++;
+  }
+
+  function string(): void {
+    pos++; // Opening quote
+    while (text.charAt(pos) !== '"') {
+      if (pos >= text.length || text.charAt(pos) === "\n") fail("a closing quote");
+      pos += text.charAt(pos) === "\\" ? 2 : 1;
+    }
+    pos++;
+  }
+
+  function value(): void {
+    space();
+    const char = text.charAt(pos);
+    if (char === "{") {
+      pos++;
+      space();
+      if (text.charAt(pos) === "}") {
+        pos++;
+        return;
+      }
+      for (;;) {
+        space();
+        if (text.charAt(pos) !== '"') fail("a quoted property name");
+        string();
+        space();
+        if (text.charAt(pos) !== ":") fail('":"');
+        pos++;
+        value();
+        space();
+        if (text.charAt(pos) === "}") {
+          pos++;
+          return;
+        }
+        if (text.charAt(pos) !== ",") fail('"," or "}"');
+        pos++;
+      }
+    }
+    if (char === "[") {
+      pos++;
+      space();
+      if (text.charAt(pos) === "]") {
+        pos++;
+        return;
+      }
+      for (;;) {
+        value();
+        space();
+        if (text.charAt(pos) === "]") {
+          pos++;
+          return;
+        }
+        if (text.charAt(pos) !== ",") fail('"," or "]"');
+        pos++;
+      }
+    }
+    if (char === '"') return string();
+
+    const literal = JSON_LITERAL.exec(text.slice(pos));
+    if (!literal) fail("a value");
+    pos += literal[0].length;
+  }
+
+  try {
+    value();
+    space();
+    if (pos < text.length) fail("the end of the file");
+    return undefined;
+  } catch (error) {
+    if (error instanceof JsonSyntaxError) return error;
+    throw error;
+  }
+}
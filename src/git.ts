@@ -0,0 +1,93 @@
+import { execFile } from "node:child_process";
+
+/** Git lookups must never hold up a session for long */
+const GIT_TIMEOUT_MS = 2_000;
+
+/**
+ * Run a git command in a directory, returning stdout or undefined when git
+ * is missing, the directory isn't a repository, or the command fails
+ */
+function git(cwd: string, args: string[]): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    execFile("git", args, { cwd, timeout: GIT_TIMEOUT_MS }, (error, stdout) => {
+      resolve(error ? undefined : stdout);
+    });
+  });
+}
+
+/**
+ * Normalize a git remote URL to `host/owner/repo` so SSH and HTTPS forms of
+ * the same remote compare equal, e.g. `git@github.com:acme/api.git` and
+ * `https://github.com/acme/api` both become `github.com/acme/api`.
+ */
+export function normalizeRemoteUrl(url: string): string {
+  return url
+    .trim()
+    .replace(/^[a-z+]+:\/\//i, "")
+    .replace(/^[^@/]+@/, "")
+    .replace(/^([^/:]+):(?!\d+\/)/, "$1/")
+    .replace(/^([^/:]+):\d+\//, "$1/")
+    .replace(/\.git$/, "")
+    .replace(/\/+$/, "");
+}
+
+/**
+ * Normalized URLs of every remote configured for the repository at `cwd`
+ */
+export async function getRemoteUrls(cwd: string): Promise<string[]> {
+  const output = await git(cwd, ["remote", "-v"]);
+  if (!output) return [];
+
+  const urls = new Set<string>();
+  for (const line of output.split("\n")) {
+    const url = line.split(/\s+/)[1];
+    if (url) urls.add(normalizeRemoteUrl(url));
+  }
+  return [...urls];
+}
+
+/**
+ * State of the repository a session runs in
+ */
+export interface GitContext {
+  /** Checked out branch; missing on a detached HEAD */
+  branch?: string;
+  /** `origin`, or the first remote, normalized to `host/owner/repo` */
+  remote?: string;
+  /** HEAD when the session started; missing before the first commit */
+  startCommit?: string;
+  /** HEAD when last checked, which is at shutdown for finished sessions */
+  endCommit?: string;
+  /** Whether there were uncommitted changes, including untracked files */
+  dirty: boolean;
+}
+
+/**
+ * Collect git context for `cwd` from the local repository only, never the
+ * network. Pass the previous context to refresh it while keeping the
+ * commit the session started at. Returns undefined outside a repository.
+ */
+export async function getGitContext(cwd: string, previous?: GitContext): Promise<GitContext | undefined> {
+  const [toplevel, branch, head, remotes, status] = await Promise.all([
+    git(cwd, ["rev-parse", "--show-toplevel"]),
+    git(cwd, ["rev-parse", "--abbrev-ref", "HEAD"]),
+    git(cwd, ["rev-parse", "--verify", "--quiet", "HEAD"]),
+    git(cwd, ["remote"]),
+    git(cwd, ["status", "--porcelain"]),
+  ]);
+  if (toplevel === undefined) return undefined;
+
+  const names = remotes?.split("\n").filter(Boolean) ?? [];
+  const remoteName = names.includes("origin") ? "origin" : names[0];
+  const remoteUrl = remoteName ? await git(cwd, ["remote", "get-url", remoteName]) : undefined;
+
+  const commit = head?.trim() || undefined;
+  const branchName = branch?.trim();
+  return {
+    branch: branchName && branchName !== "HEAD" ? branchName : undefined,
+    remote: remoteUrl?.trim() ? normalizeRemoteUrl(remoteUrl) : undefined,
+    startCommit: previous ? previous.startCommit : commit,
+    endCommit: commit,
+    dirty: Boolean(status?.trim()),
+  };
+}
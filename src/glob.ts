@@ -0,0 +1,47 @@
+import { homedir } from "node:os";
+
+/**
+ * Compile a glob pattern into an anchored RegExp.
+ *
+ * Supports `*` (any characters except `/`), `**` (any characters, including
+ * `/`), `?` (one character except `/`) and a leading `~` for the home
+ * directory. A trailing `/**` also matches the directory itself, so
+ * `~/work/**` matches `~/work` as well as everything under it. Likewise a
+ * `**` between two slashes matches zero or more directories, so a pattern
+ * for `nda` anywhere under `~/work` matches `~/work/nda` itself too.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const expanded = pattern.startsWith("~") ? homedir() + pattern.slice(1) : pattern;
+
+  let source = "";
+  for (let i = 0; i < expanded.length; i++) {
+    const char = expanded[i];
+    if (char === "*") {
+      if (expanded[i + 1] === "*") {
+        i++;
+        if (source.endsWith("/") && i === expanded.length - 1) {
+          source = source.slice(0, -1) + "(?:/.*)?";
+        } else if ((source === "" || source.endsWith("/")) && expanded[i + 1] === "/") {
+          i++;
+          source += "(?:.*/)?";
+        } else {
+          source += ".*";
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a value matches a glob pattern
+ */
+export function matchesGlob(value: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(value);
+}
@@ -0,0 +1,121 @@
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { formatBytes } from "./limits";
+
+/**
+ * What we know about an image without rendering it
+ */
+export interface ImageInfo {
+  mimeType: string;
+  /** Decoded size in bytes */
+  bytes: number;
+  width?: number;
+  height?: number;
+  /** Where a local copy was saved, when image saving is enabled */
+  path?: string;
+}
+
+/**
+ * Read the pixel dimensions from a PNG, GIF, JPEG or WebP header
+ */
+function readDimensions(buf: Buffer): { width: number; height: number } | undefined {
+  // PNG: IHDR is always the first chunk
+  if (buf.length >= 24 && buf.readUInt32BE(0) === 0x89504e47) {
+    return { width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) };
+  }
+
+  // GIF87a / GIF89a
+  if (buf.length >= 10 && buf.toString("ascii", 0, 3) === "GIF") {
+    return { width: buf.readUInt16LE(6), height: buf.readUInt16LE(8) };
+  }
+
+  // JPEG: walk segments until a start-of-frame marker
+  if (buf.length >= 4 && buf[0] === 0xff && buf[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < buf.length) {
+      if (buf[offset] !== 0xff) return undefined;
+      const marker = buf[offset + 1];
+      const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isFrame) {
+        return { height: buf.readUInt16BE(offset + 5), width: buf.readUInt16BE(offset + 7) };
+      }
+      offset += 2 + buf.readUInt16BE(offset + 2);
+    }
+    return undefined;
+  }
+
+  // WebP: lossy, lossless and extended variants
+  if (buf.length >= 30 && buf.toString("ascii", 0, 4) === "RIFF" && buf.toString("ascii", 8, 12) === "WEBP") {
+    const format = buf.toString("ascii", 12, 16);
+    if (format === "VP8 ") {
+      return { width: buf.readUInt16LE(26) & 0x3fff, height: buf.readUInt16LE(28) & 0x3fff };
+    }
+    if (format === "VP8L") {
+      const bits = buf.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (format === "VP8X") {
+      return { width: buf.readUIntLE(24, 3) + 1, height: buf.readUIntLE(27, 3) + 1 };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Describe a base64-encoded image: its type, size and, for common formats,
+ * its dimensions
+ */
+export function describeImage(data: string, mimeType: string): ImageInfo {
+  const buf = Buffer.from(data, "base64");
+  return { mimeType, bytes: buf.length, ...readDimensions(buf) };
+}
+
+/**
+ * Human-readable stand-in for an image in the synced transcript
+ */
+export function imagePlaceholder(info: ImageInfo): string {
+  const details = [info.mimeType];
+  if (info.width && info.height) details.push(`${info.width}x${info.height}`);
+  details.push(formatBytes(info.bytes));
+  if (info.path) details.push(info.path);
+  return `[Image: ${details.join(", ")}]`;
+}
+
+/**
+ * Saves images to a local directory so synced placeholders can point at
+ * them. Files are named by content hash, so the same image is stored once.
+ */
+export class ImageStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * Path an image is saved at, without writing anything
+   */
+  pathFor(data: string, mimeType: string): string {
+    const hash = createHash("sha256").update(Buffer.from(data, "base64")).digest("hex").slice(0, 16);
+    const extension = mimeType.split("/")[1]?.replace("jpeg", "jpg").replace(/[^a-z0-9]/gi, "") || "bin";
+    return join(this.dir, `${hash}.${extension}`);
+  }
+
+  /**
+   * Save an image, returning its path, or undefined if it couldn't be written
+   */
+  save(data: string, mimeType: string): string | undefined {
+    try {
+      const path = this.pathFor(data, mimeType);
+      if (!existsSync(path)) {
+        mkdirSync(this.dir, { recursive: true });
+        writeFileSync(path, Buffer.from(data, "base64"));
+      }
+      return path;
+    } catch {
+      return undefined; // Saving is best effort - the placeholder still syncs
+    }
+  }
+}
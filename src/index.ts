@@ -1,183 +1,388 @@
+import { SessionManager } from "@mariozechner/pi-coding-agent";
 import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
-import type { AssistantMessage, ToolResultMessage } from "@mariozechner/pi-ai";
-import { loadConfig, ConfigSelectorComponent } from "./config";
-import { SyncClient } from "./client";
-import type { MessageData, ToolResultData } from "./client";
+import type { AssistantMessage } from "@mariozechner/pi-ai";
+import { basename } from "node:path";
+import {
+  isConfigured,
+  loadConfig,
+  resolveConfig,
+  ConfigSelectorComponent,
+  LEDGER_FILE,
+  outboxFile,
+} from "./config";
+import type { Config } from "./config";
+import type { SessionData, SyncResult, SyncTarget } from "./client";
+import {
+  addUsage,
+  branchMarkerMessage,
+  compactionMessage,
+  formatProvider,
+  processBranch,
+  recordModelUsage,
+  type BranchOptions,
+} from "./branch";
+import { formatBackfillSummary, parseBackfillArgs, runBackfill } from "./backfill";
+import { formatDoctor, runDoctor } from "./doctor";
+import { getGitContext } from "./git";
+import { SessionLedger } from "./ledger";
+import { exclusionReason, inspectProject, type ProjectInfo } from "./project";
+import { SyncRouter } from "./routing";
+import { SYNC_MODE_ENTRY, type SessionState, type SyncMode } from "./session";
+import { buildPreview, formatPreview, PreviewComponent } from "./preview";
+import { formatStatus } from "./status";
+import { applyTagArgs, autoTags, mergeTags, readTags, TAGS_ENTRY } from "./tags";
+import { RENAME_POLL_MS, SUMMARY_TIMEOUT_MS, summarizeTitle, TITLE_ENTRY } from "./title";
+import { SyncWorker } from "./worker";
 
 /**
- * Session state tracked in memory during a session's lifetime.
- * Accumulates usage statistics and message counts for sync updates.
+ * Main plugin entry point. Registers event handlers for session lifecycle
+ * and message events to sync with OpenSync.
  */
-interface SessionState {
-  sessionId: string;
-  parentSessionId?: string;
-  projectPath: string;
-  model?: string;
-  provider?: string;
-  promptTokens: number;
-  completionTokens: number;
-  cost: number;
-  messageCount: number;
-  toolCallCount: number;
-  startedAt: number;
-}
+export default function piOpensyncPlugin(pi: ExtensionAPI) {
+  registerConfigCommand(pi);
+  // Registered before the config is loaded so it can explain a broken one
+  registerDoctorCommand(pi);
 
-/**
- * Stats accumulated from processing a branch of messages.
- */
-interface BranchStats {
-  messageCount: number;
-  promptTokens: number;
-  completionTokens: number;
-  cost: number;
-  toolCallCount: number;
-}
+  const config = loadConfig();
 
-/**
- * Process existing messages in a branch to extract stats and build message payloads.
- * Used when resuming a session or processing a fork to sync existing messages.
- */
-function processBranch(
-  ctx: ExtensionContext,
-  config: { syncThinking: boolean }
-): { stats: BranchStats; messages: MessageData[] } {
-  const branch = ctx.sessionManager.getBranch();
-  const sessionId = ctx.sessionManager.getSessionId();
-  const includeThinking = config.syncThinking;
-
-  const stats: BranchStats = {
-    messageCount: 0,
-    promptTokens: 0,
-    completionTokens: 0,
-    cost: 0,
-    toolCallCount: 0,
+  let state: SessionState | null = null;
+  let client: SyncTarget | null = null;
+  let exclusion: string | undefined;
+  let project: ProjectInfo | undefined;
+
+  // Requests are sent in the background so a slow or unreachable OpenSync
+  // never holds up pi
+  const worker = new SyncWorker();
+
+  registerStatusCommand(pi, () =>
+    formatStatus({
+      config,
+      session: state,
+      destinations: client?.status() ?? [],
+      queued: worker.size(),
+      exclusion,
+    })
+  );
+
+  if (!config) return;
+
+  const router = new SyncRouter(config, { outboxFile });
+  const ledger = new SessionLedger(LEDGER_FILE);
+
+  // Backfill is an explicit user action, so it stays available with autoSync off
+  registerBackfillCommand(pi, config, router, ledger);
+  registerPreviewCommand(pi, config, router, () => state);
+
+  if (config.autoSync === false) return;
+
+  // Projects we've already explained the exclusion for in this process
+  const notifiedExclusions = new Set<string>();
+
+  /**
+   * Pick the destinations for the session's project, warning about routes
+   * that name profiles which don't exist. Returns null for excluded projects.
+   */
+  const routeSession = async (ctx: ExtensionContext): Promise<SyncTarget | null> => {
+    project = await inspectProject(config, ctx.cwd);
+
+    exclusion = exclusionReason(config, project);
+    if (exclusion) {
+      if (ctx.hasUI && !notifiedExclusions.has(ctx.cwd)) {
+        notifiedExclusions.add(ctx.cwd);
+        ctx.ui.notify(`[OpenSync] Not syncing sessions in this project: ${exclusion}`, "info");
+      }
+      return null;
+    }
+
+    const route = router.forProject(project);
+    if (route.missing.length > 0 && ctx.hasUI) {
+      ctx.ui.notify(
+        `[OpenSync] Unknown profile(s) in routes: ${route.missing.join(", ")}. Not syncing to them.`,
+        "warning"
+      );
+    }
+    return route.client;
   };
-  const messages: MessageData[] = [];
-
-  for (const entry of branch) {
-    if (entry.type !== "message") continue;
-
-    const msg = entry.message;
-
-    // Tool results are synced as part of assistant messages (via toolResults property),
-    // not as standalone entries. In live turns, they come from event.toolResults.
-    if (msg.role !== "user" && msg.role !== "assistant") continue;
-
-    stats.messageCount++;
-
-    if (msg.role === "user") {
-      const userMsg = msg;
-      const text =
-        typeof userMsg.content === "string"
-          ? userMsg.content
-          : userMsg.content
-            .filter((p) => p.type === "text")
-            .map((p) => (p as { text: string }).text)
-            .join("\n");
-
-      messages.push({
-        role: "user",
-        sessionId,
-        messageId: `${sessionId}-user-${stats.messageCount}`,
-        text,
-        timestamp: userMsg.timestamp,
+
+  /**
+   * Whether message content may be synced, or only session metadata
+   */
+  const syncsContent = (session: SessionState) =>
+    !config.privateMode && !session.mode.paused && !session.mode.private;
+
+  /**
+   * Sync every message in the branch that hasn't been synced yet. Prompts
+   * only get entry IDs once pi stores them, so new messages are found by
+   * comparing the branch with what was already sent.
+   */
+  const syncPending = (
+    session: SessionState,
+    target: SyncTarget,
+    sessionManager: Pick<SessionManager, "getBranch" | "getSessionId">,
+    ctx: ExtensionContext
+  ) => {
+    const { messages } = processBranch(sessionManager, branchOptions(config, ctx));
+    const synced = session.syncedMessageIds;
+    const pending = messages.filter((m) => !synced.has(m.messageId));
+    for (const message of pending) synced.add(message.messageId);
+
+    if (pending.length > 0 && syncsContent(session)) {
+      worker.syncBatch(target, pending, (result) => {
+        if (!result.success) {
+          notifyError(ctx, "Failed to sync message", result);
+        }
       });
-    } else if (msg.role === "assistant") {
-      const assistantMsg = msg;
-
-      messages.push({
-        role: "assistant",
-        sessionId,
-        messageId: `${sessionId}-assistant-${stats.messageCount}`,
-        content: assistantMsg.content,
-        model: assistantMsg.model,
-        timestamp: assistantMsg.timestamp,
-        usage: assistantMsg.usage,
-        includeThinking,
+    }
+  };
+
+  /**
+   * Recompute the tags synced with the session: the user's, plus those from
+   * tag rules, which can depend on the models used so far
+   */
+  const refreshTags = (session: SessionState) => {
+    const models = [session.model, ...session.models.map((m) => m.model)].filter((m): m is string => !!m);
+    const facts = {
+      project: project ?? { path: session.projectPath, remotes: [] },
+      branch: session.git?.branch,
+      models,
+    };
+    session.tags = mergeTags(session.userTags, autoTags(config.tagRules, facts));
+  };
+
+  // pi has no event for renames, so the session name is checked on a timer
+  // and the session is synced again as soon as it changes
+  let nameTimer: ReturnType<typeof setInterval> | undefined;
+  const watchSessionName = (ctx: ExtensionContext) => {
+    clearInterval(nameTimer);
+    let name = ctx.sessionManager.getSessionName();
+    nameTimer = setInterval(() => {
+      const current = ctx.sessionManager.getSessionName();
+      if (!state || !client || current === name) return;
+      name = current;
+      worker.syncSession(client, state, ctx, {
+        onResult: (result) => {
+          if (!result.success) {
+            notifyError(ctx, "Failed to update session title", result);
+          }
+        },
       });
+    }, RENAME_POLL_MS);
+    nameTimer.unref?.();
+  };
 
-      if (assistantMsg.usage) {
-        stats.promptTokens += assistantMsg.usage.input;
-        stats.completionTokens += assistantMsg.usage.output;
-        stats.cost += assistantMsg.usage.cost.total;
-      }
-      stats.toolCallCount += assistantMsg.content.filter((p) => p.type === "toolCall").length;
-    }
-  }
+  /**
+   * Have the model summarize an ending session into a title, for the
+   * `summary` title strategy. Skipped for named sessions and when nothing
+   * happened since the last summary.
+   */
+  const summarize = async (
+    sessionManager: Pick<SessionManager, "getBranch" | "getSessionId" | "getSessionName">,
+    ctx: ExtensionContext
+  ): Promise<string | undefined> => {
+    if (config.titleStrategy !== "summary" || config.privateMode) return undefined;
+    if (!ctx.model || sessionManager.getSessionName()) return undefined;
 
-  return { stats, messages };
-}
+    const last = sessionManager.getBranch().at(-1);
+    if (last?.type === "custom" && last.customType === TITLE_ENTRY) return undefined;
 
-/**
- * Main plugin entry point. Registers event handlers for session lifecycle
- * and message events to sync with OpenSync.
- */
-export default function piOpensyncPlugin(pi: ExtensionAPI) {
-  registerConfigCommand(pi);
+    const { messages } = processBranch(sessionManager, branchOptions(config, ctx));
+    if (messages.length === 0) return undefined;
 
-  const config = loadConfig();
-  if (!config) return;
-  if (config.autoSync === false) return;
+    const apiKey = await ctx.modelRegistry.getApiKey(ctx.model);
+    return summarizeTitle(ctx.model, apiKey, messages, AbortSignal.timeout(SUMMARY_TIMEOUT_MS));
+  };
 
-  const client = new SyncClient(config);
-  let state: SessionState | null = null;
+  /**
+   * Begin tracking the session pi currently has open, on startup and after
+   * switching with /new or /resume
+   */
+  const startSession = async (ctx: ExtensionContext) => {
+    // Rules are checked before anything is sent, so excluded projects never
+    // reach OpenSync - not even as session metadata
+    client = await routeSession(ctx);
+    if (!client) {
+      state = null;
+      return;
+    }
+
+    const sessionId = ctx.sessionManager.getSessionId();
+
+    // Deliver anything left over from earlier offline sessions first so the
+    // dashboard sees requests in the order they were made
+    worker.flushOutbox(client, sessionId);
 
-  pi.on("session_start", async (_event, ctx) => {
     // When resuming a session, the branch already has messages - restore their
-    // accumulated stats so token counts and costs stay accurate
-    const { stats } = processBranch(ctx, config);
+    // accumulated stats so token counts and costs stay accurate. A pause or
+    // private mode set before /reload is restored from the session entries.
+    const { stats, messages, mode } = processBranch(ctx.sessionManager, branchOptions(config, ctx));
 
     state = {
-      sessionId: ctx.sessionManager.getSessionId(),
+      sessionId,
       projectPath: ctx.cwd,
       model: ctx.model?.name,
-      provider: ctx.model?.provider?.replace(/-/g, " "),
+      provider: ctx.model && formatProvider(ctx.model.provider),
+      git: await getGitContext(ctx.cwd),
       ...stats,
       startedAt: Date.now(),
+      mode,
+      // Tags added before /reload are restored from the session entries
+      tags: [],
+      userTags: readTags(ctx.sessionManager.getBranch()),
+      // Existing messages were synced live or are left to backfill
+      syncedMessageIds: new Set(messages.map((m) => m.messageId)),
     };
+    refreshTags(state);
+
+    worker.syncSession(client, state, ctx, {
+      onResult: (result) => {
+        if (!result.success) {
+          notifyError(ctx, "Failed to sync session", result);
+        }
+
+        // A brand-new session will be synced in full as it happens, so backfill
+        // can skip it. Resumed sessions may hold history from before install.
+        if (stats.messageCount === 0 && (result.success || result.queued)) {
+          ledger.add(sessionId);
+        }
+      },
+    });
+    watchSessionName(ctx);
+  };
 
-    const result = await client.syncSession(state, ctx);
+  pi.on("session_start", async (_event, ctx) => {
+    await startSession(ctx);
+  });
 
-    if (!result.success) {
-      notifyError(ctx, `Failed to sync session: ${result.error}`);
+  /**
+   * /new and /resume replace the open session without a shutdown, so finish
+   * the previous session before tracking the new one
+   */
+  pi.on("session_switch", async (event, ctx) => {
+    if (state && client && event.previousSessionFile) {
+      try {
+        const previous = SessionManager.open(event.previousSessionFile);
+        // Prompts sent or markers added since the last turn
+        syncPending(state, client, previous, ctx);
+        const [title, git] = await Promise.all([
+          summarize(previous, ctx),
+          getGitContext(state.projectPath, state.git),
+        ]);
+        if (title) previous.appendCustomEntry(TITLE_ENTRY, { title });
+        worker.syncSession(client, { ...state, git }, { sessionManager: previous }, { isFinal: true });
+      } catch { } // Previous session file is gone - nothing left to finalize
     }
+    state = null;
+
+    await startSession(ctx);
   });
 
   pi.on("session_fork", async (_event, ctx) => {
     const parentSessionId = state?.sessionId;
+    client = await routeSession(ctx);
+    if (!client) {
+      state = null;
+      return;
+    }
 
     // Fork creates a new session with the same messages - sync them under the
     // new session ID and restore accumulated stats
-    const { stats, messages } = processBranch(ctx, config);
+    const { stats, messages, mode } = processBranch(ctx.sessionManager, branchOptions(config, ctx));
 
     state = {
       sessionId: ctx.sessionManager.getSessionId(),
       parentSessionId,
       projectPath: ctx.cwd,
       model: ctx.model?.name,
-      provider: ctx.model?.provider?.replace(/-/g, " "),
+      provider: ctx.model && formatProvider(ctx.model.provider),
+      git: await getGitContext(ctx.cwd),
       ...stats,
       startedAt: Date.now(),
+      mode,
+      tags: [],
+      userTags: readTags(ctx.sessionManager.getBranch()),
+      syncedMessageIds: new Set(messages.map((m) => m.messageId)),
     };
+    refreshTags(state);
 
-    await client.syncSession(state, ctx);
+    const sessionId = state.sessionId;
+    worker.syncSession(client, state, ctx);
+    watchSessionName(ctx);
 
-    if (messages.length > 0) {
-      await client.syncBatch(messages);
+    if (messages.length > 0 && !config.privateMode) {
+      worker.syncBatch(client, messages, (result) => {
+        if (result.success || result.queued) {
+          ledger.add(sessionId);
+        }
+      });
+      worker.syncSession(client, state, ctx);
+    } else {
+      ledger.add(sessionId);
     }
+  });
 
-    await client.syncSession(state, ctx);
+  /**
+   * Navigating the session tree moves to an earlier entry in the same
+   * session. Mark the switch in the message stream so the dashboard shows
+   * where the new branch starts; a branch summary, if pi wrote one, is used
+   * as the marker so it keeps a stable ID.
+   */
+  pi.on("session_tree", async (event, ctx) => {
+    if (!state || !client) return;
+    if (event.newLeafId === event.oldLeafId) return;
+    if (!syncsContent(state)) return;
+
+    const marker = event.summaryEntry
+      ? branchMarkerMessage(state.sessionId, event.summaryEntry.id, event.summaryEntry.summary)
+      : branchMarkerMessage(state.sessionId, `branch-${Date.now().toString(36)}`);
+    state.syncedMessageIds.add(marker.messageId);
+
+    worker.syncMessage(client, marker, (result) => {
+      if (!result.success) {
+        notifyError(ctx, "Failed to sync branch switch", result);
+      }
+    });
   });
 
   /**
-   * Sync final session state on shutdown
+   * Record compactions as they happen, since the summary is the best
+   * description of everything that came before it
    */
-  pi.on("session_shutdown", async (_event, ctx) => {
-    if (!state) return;
+  pi.on("session_compact", async (event, ctx) => {
+    if (!state || !client) return;
+    if (!syncsContent(state)) return;
 
-    await client.syncSession(state, ctx, true);
+    const branch = ctx.sessionManager.getBranch();
+    const marker = compactionMessage(state.sessionId, event.compactionEntry, branch);
+    state.syncedMessageIds.add(marker.messageId);
 
-    state = null;
+    worker.syncMessage(client, marker, (result) => {
+      if (!result.success) {
+        notifyError(ctx, "Failed to sync compaction", result);
+      }
+    });
+  });
+
+  /**
+   * Sync final session state on shutdown, giving queued requests a bounded
+   * amount of time to finish. Requests that haven't started by then are
+   * saved to the outbox for the next session to replay.
+   */
+  pi.on("session_shutdown", async (_event, ctx) => {
+    clearInterval(nameTimer);
+    if (state && client) {
+      // A prompt submitted right before quitting never reached turn_end
+      syncPending(state, client, ctx.sessionManager, ctx);
+      // Refresh git so the session records the commit it ended at
+      const [title, git] = await Promise.all([
+        summarize(ctx.sessionManager, ctx),
+        getGitContext(state.projectPath, state.git),
+      ]);
+      if (title) pi.appendEntry(TITLE_ENTRY, { title });
+      worker.syncSession(client, { ...state, git }, ctx, { isFinal: true });
+      state = null;
+    }
+
+    await worker.flush();
   });
 
   /**
@@ -186,87 +391,91 @@ export default function piOpensyncPlugin(pi: ExtensionAPI) {
   pi.on("model_select", async (event, _ctx) => {
     if (!state) return;
     state.model = event.model.name;
-    state.provider = event.model.provider.replace(/-/g, " ");
+    state.provider = formatProvider(event.model.provider);
+    refreshTags(state);
   });
 
   /**
-   * Sync user messages as they're sent
+   * Count user messages as they're sent. Their content is synced at the end
+   * of the turn, or when the session ends first, once pi has stored them and
+   * assigned entry IDs.
    */
-  pi.on("input", async (event, ctx) => {
+  pi.on("input", async (event, _ctx) => {
     if (!state) return;
     if (event.source === "extension") return;
 
     state.messageCount++;
-
-    const result = await client.syncMessage({
-      role: "user",
-      sessionId: state.sessionId,
-      messageId: `${state.sessionId}-user-${state.messageCount}`,
-      text: event.text,
-    });
-
-    if (!result.success) {
-      notifyError(ctx, `Failed to sync message: ${result.error}`);
-    }
   });
 
   /**
-   * Sync assistant messages and update session stats after each turn
+   * Sync new messages and update session stats after each turn
    */
   pi.on("turn_end", async (event, ctx) => {
-    if (!state) return;
+    if (!state || !client) return;
     if (event.message.role !== "assistant") return;
 
     const msg = event.message as AssistantMessage;
 
     state.messageCount++;
 
-    if (msg.usage) {
-      state.promptTokens += msg.usage.input;
-      state.completionTokens += msg.usage.output;
-      state.cost += msg.usage.cost.total;
-    }
+    addUsage(state, msg.usage);
+    const { modelName } = branchOptions(config, ctx);
+    recordModelUsage(state.models, modelName(msg.provider, msg.model), formatProvider(msg.provider), msg.usage);
     state.toolCallCount += msg.content.filter((p) => p.type === "toolCall").length;
 
-    // Convert tool results to our format
-    const toolResults: ToolResultData[] =
-      config.syncToolCalls !== false
-        ? (event.toolResults as ToolResultMessage[]).map((tr) => ({
-          toolName: tr.toolName,
-          content: tr.content.filter((c) => c.type === "text") as { type: "text"; text: string }[],
-        }))
-        : [];
-
-    const msgResult = await client.syncMessage({
-      role: "assistant",
-      sessionId: state.sessionId,
-      messageId: `${state.sessionId}-assistant-${state.messageCount}`,
-      content: msg.content,
-      model: msg.model,
-      timestamp: msg.timestamp,
-      usage: msg.usage,
-      toolResults,
-      includeThinking: config.syncThinking,
+    // The prompt, this turn's reply and its tool results are all in the
+    // branch by now. Anything not yet synced is new since the last turn.
+    syncPending(state, client, ctx.sessionManager, ctx);
+
+    // Session totals are synced even while paused
+    refreshTags(state);
+    worker.syncSession(client, state, ctx, {
+      onResult: (result) => {
+        if (!result.success) {
+          notifyError(ctx, "Failed to update session", result);
+        }
+      },
     });
+  });
 
-    if (!msgResult.success) {
-      notifyError(ctx, `Failed to sync message: ${msgResult.error}`);
-    }
-
-    const sessResult = await client.syncSession(state, ctx);
-
-    if (!sessResult.success) {
-      notifyError(ctx, `Failed to update session: ${sessResult.error}`);
-    }
+  registerSyncModeCommands(pi, () => state);
+  registerTagCommand(pi, () => state, (session, ctx) => {
+    refreshTags(session);
+    if (!client) return;
+    worker.syncSession(client, session, ctx, {
+      onResult: (result) => {
+        if (!result.success) {
+          notifyError(ctx, "Failed to update session tags", result);
+        }
+      },
+    });
   });
 }
 
 /**
- * Show error notification to user.
+ * How the branch is turned into payloads: the configured tool rules, and
+ * model names looked up in pi's model registry
  */
-function notifyError(ctx: ExtensionContext, message: string) {
-  if (ctx.hasUI) {
-    ctx.ui.notify(`[OpenSync] ${message}`, "error");
+function branchOptions(
+  config: Config,
+  ctx: Pick<ExtensionContext, "modelRegistry">
+): Required<BranchOptions> {
+  return {
+    toolRules: config.toolRules,
+    modelName: (provider, modelId) => ctx.modelRegistry.find(provider, modelId)?.name ?? modelId,
+  };
+}
+
+/**
+ * Show error notification to user. Failures that were queued in the outbox
+ * are reported as warnings since they will be retried.
+ */
+function notifyError(ctx: ExtensionContext, message: string, result: SyncResult) {
+  if (!ctx.hasUI) return;
+  if (result.queued) {
+    ctx.ui.notify(`[OpenSync] ${message} (queued for retry): ${result.error}`, "warning");
+  } else {
+    ctx.ui.notify(`[OpenSync] ${message}: ${result.error}`, "error");
   }
 }
 
@@ -279,18 +488,19 @@ function registerConfigCommand(pi: ExtensionAPI) {
     handler: async (_args, ctx) => {
       if (!ctx.hasUI) return;
 
-      const currentConfig = loadConfig();
+      const resolved = resolveConfig(ctx.cwd);
 
-      if (!currentConfig) {
+      if (!isConfigured(resolved.config)) {
         const setup = await ctx.ui.confirm("No Configuration", "OpenSync is not configured. Set up now?");
         if (!setup) return;
       }
 
       await ctx.ui.custom<void>((tui, _theme, _kb, done) => {
         const component = new ConfigSelectorComponent(
-          currentConfig,
+          resolved,
           ctx,
-          { onClose: () => done(), requestRender: () => tui.requestRender() }
+          { onClose: () => done(), requestRender: () => tui.requestRender() },
+          pi.getAllTools().map((tool) => tool.name)
         );
 
         return {
@@ -302,3 +512,238 @@ function registerConfigCommand(pi: ExtensionAPI) {
     },
   });
 }
+
+/**
+ * Register the /opensync:status command for sync diagnostics.
+ */
+function registerStatusCommand(pi: ExtensionAPI, getStatus: () => string) {
+  pi.registerCommand("opensync:status", {
+    description: "Show OpenSync sync status for the current session",
+    handler: async (_args, ctx) => {
+      ctx.ui.notify(getStatus(), "info");
+    },
+  });
+}
+
+/**
+ * Register the /opensync:doctor command, which checks the setup and says
+ * how to fix what's wrong.
+ */
+function registerDoctorCommand(pi: ExtensionAPI) {
+  pi.registerCommand("opensync:doctor", {
+    description: "Check the OpenSync setup and show how to fix problems",
+    handler: async (_args, ctx) => {
+      const checks = await runDoctor(ctx.cwd);
+      ctx.ui.notify(formatDoctor(checks), checks.every((check) => check.ok) ? "info" : "warning");
+    },
+  });
+}
+
+/**
+ * Register /opensync:pause, /opensync:resume and /opensync:private. Mode
+ * changes are appended to the session so they survive /reload and carry
+ * over to forks and backfill.
+ */
+function registerSyncModeCommands(pi: ExtensionAPI, getState: () => SessionState | null) {
+  const setMode = (ctx: ExtensionContext, change: Partial<SyncMode>, message: string) => {
+    const state = getState();
+    if (!state) {
+      ctx.ui.notify("[OpenSync] Not syncing this session", "warning");
+      return;
+    }
+    state.mode = { ...state.mode, ...change };
+    pi.appendEntry(SYNC_MODE_ENTRY, state.mode);
+    ctx.ui.notify(`[OpenSync] ${message}`, "info");
+  };
+
+  pi.registerCommand("opensync:pause", {
+    description: "Stop syncing messages for this session (totals are still synced)",
+    handler: async (_args, ctx) => {
+      setMode(ctx, { paused: true }, "Message syncing paused. Run /opensync:resume to continue.");
+    },
+  });
+
+  pi.registerCommand("opensync:resume", {
+    description: "Resume syncing messages for this session",
+    handler: async (_args, ctx) => {
+      setMode(ctx, { paused: false }, "Message syncing resumed. Messages sent while paused are not synced.");
+    },
+  });
+
+  pi.registerCommand("opensync:private", {
+    description: "Sync only session metadata for this session, never message content (on/off)",
+    getArgumentCompletions: (prefix) => {
+      const options = ["on", "off"].filter((o) => o.startsWith(prefix.trim()));
+      return options.length > 0 ? options.map((o) => ({ value: o, label: o })) : null;
+    },
+    handler: async (args, ctx) => {
+      const value = args.trim();
+      if (value !== "" && value !== "on" && value !== "off") {
+        ctx.ui.notify("[OpenSync] Usage: /opensync:private [on|off]", "warning");
+        return;
+      }
+      const enable = value === "" ? !getState()?.mode.private : value === "on";
+      setMode(
+        ctx,
+        { private: enable },
+        enable
+          ? "Private mode on. Only session metadata (tokens, cost, duration) is synced."
+          : "Private mode off. New messages will be synced."
+      );
+    },
+  });
+}
+
+/**
+ * Register /opensync:tag. Tags are recorded in the session file, so they
+ * survive /reload and resume.
+ */
+function registerTagCommand(
+  pi: ExtensionAPI,
+  getState: () => SessionState | null,
+  onChange: (session: SessionState, ctx: ExtensionContext) => void
+) {
+  pi.registerCommand("opensync:tag", {
+    description: "Tag this session: name to add, -name to remove, nothing to list",
+    handler: async (args, ctx) => {
+      const state = getState();
+      if (!state) {
+        ctx.ui.notify("[OpenSync] Not syncing this session", "warning");
+        return;
+      }
+
+      if (args.trim()) {
+        state.userTags = applyTagArgs(state.userTags, args);
+        pi.appendEntry(TAGS_ENTRY, { tags: state.userTags });
+        onChange(state, ctx);
+      }
+      ctx.ui.notify(`[OpenSync] Tags: ${state.tags.length > 0 ? state.tags.join(", ") : "none"}`, "info");
+    },
+  });
+}
+
+/**
+ * Register the /opensync:backfill command for importing historical sessions.
+ */
+function registerBackfillCommand(
+  pi: ExtensionAPI,
+  config: Config,
+  router: SyncRouter,
+  ledger: SessionLedger
+) {
+  pi.registerCommand("opensync:backfill", {
+    description: "Upload past pi sessions to OpenSync (--all for every project, --dry-run to preview)",
+    getArgumentCompletions: (prefix) => {
+      const flags = [
+        { value: "--all", label: "--all", description: "Scan sessions from every project" },
+        { value: "--dry-run", label: "--dry-run", description: "Report without uploading" },
+      ];
+      const current = prefix.split(/\s+/).pop() ?? "";
+      const matches = flags.filter((f) => f.value.startsWith(current));
+      return matches.length > 0 ? matches : null;
+    },
+    handler: async (args, ctx) => {
+      const { unknown, ...flags } = parseBackfillArgs(args);
+      if (unknown.length > 0) {
+        ctx.ui.notify(
+          `[OpenSync] Unknown option: ${unknown.join(" ")}\n\nUsage: /opensync:backfill [--all] [--dry-run]`,
+          "warning"
+        );
+        return;
+      }
+
+      const statusKey = "opensync-backfill";
+      ctx.ui.setStatus(statusKey, "OpenSync backfill: scanning sessions...");
+
+      try {
+        const summary = await runBackfill(
+          async (projectPath) => {
+            const project = await inspectProject(config, projectPath);
+            if (exclusionReason(config, project)) return null;
+            return router.forProject(project).client;
+          },
+          ledger,
+          ctx.cwd,
+          {
+            ...flags,
+            currentSessionId: ctx.sessionManager.getSessionId(),
+            privateMode: config.privateMode,
+            ...branchOptions(config, ctx),
+            autoTags: async (projectPath, models) =>
+              autoTags(config.tagRules, { project: await inspectProject(config, projectPath), models }),
+          },
+          ({ index, total, session }) => {
+            const project = basename(session.cwd) || "unknown project";
+            ctx.ui.setStatus(statusKey, `OpenSync backfill ${index + 1}/${total}: ${project}`);
+          }
+        );
+        ctx.ui.notify(
+          `[OpenSync] ${formatBackfillSummary(summary, flags.dryRun)}`,
+          summary.failed > 0 ? "warning" : "info"
+        );
+      } catch (error) {
+        ctx.ui.notify(`[OpenSync] Backfill failed: ${error}`, "error");
+      } finally {
+        ctx.ui.setStatus(statusKey, undefined);
+      }
+    },
+  });
+}
+
+/**
+ * Register the /opensync:preview command, which shows the payloads the
+ * current branch would produce for each destination without sending them.
+ */
+function registerPreviewCommand(
+  pi: ExtensionAPI,
+  config: Config,
+  router: SyncRouter,
+  getState: () => SessionState | null
+) {
+  pi.registerCommand("opensync:preview", {
+    description: "Show exactly what would be uploaded for this session, without sending anything",
+    handler: async (_args, ctx) => {
+      if (!ctx.hasUI) return;
+
+      const project = await inspectProject(config, ctx.cwd);
+      const exclusion = exclusionReason(config, project);
+      if (exclusion) {
+        ctx.ui.notify(`[OpenSync] Nothing would be uploaded: ${exclusion}`, "info");
+        return;
+      }
+
+      const { clients, missing } = router.clientsForProject(project);
+      const { stats, messages, mode } = processBranch(ctx.sessionManager, branchOptions(config, ctx));
+      // Live state has the parent of a fork and totals counted as they happened
+      const session: SessionData = getState() ?? {
+        sessionId: ctx.sessionManager.getSessionId(),
+        projectPath: ctx.cwd,
+        model: ctx.model?.name,
+        provider: ctx.model && formatProvider(ctx.model.provider),
+        ...stats,
+        tags: mergeTags(
+          readTags(ctx.sessionManager.getBranch()),
+          autoTags(config.tagRules, { project, models: stats.models.map((m) => m.model) })
+        ),
+      };
+
+      const notes: string[] = [];
+      if (config.autoSync === false) notes.push("Auto sync is off; these would only be sent by backfill.");
+      if (config.privateMode || mode.private) notes.push("Private mode: only the session payload is sent.");
+      else if (mode.paused) notes.push("Paused: new messages are not sent until /opensync:resume.");
+      if (missing.length > 0) notes.push(`Unknown profile(s) in routes, not previewed: ${missing.join(", ")}`);
+
+      const previews = buildPreview(clients, session, ctx, config.privateMode ? [] : messages);
+      const lines = formatPreview(previews, notes);
+
+      await ctx.ui.custom<void>((tui, _theme, _kb, done) => {
+        const component = new PreviewComponent(lines, () => tui.terminal.rows, () => done());
+        return {
+          render(width: number) { return component.render(width); },
+          invalidate() { component.invalidate(); },
+          handleInput(data: string) { component.handleInput(data); tui.requestRender(); },
+        };
+      });
+    },
+  });
+}
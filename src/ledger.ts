@@ -0,0 +1,54 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { withFileLock } from "./lock";
+
+/**
+ * Record of sessions whose complete history has been uploaded to OpenSync.
+ *
+ * Backfill consults it to skip sessions that are already on the dashboard.
+ * The file is re-read on every call and updated under a lock file, so
+ * concurrent pi processes see and keep each other's updates.
+ */
+export class SessionLedger {
+  private path: string;
+  private lockPath: string;
+
+  constructor(path: string) {
+    this.path = path;
+    this.lockPath = `${path}.lock`;
+  }
+
+  /**
+   * Whether the session has been fully uploaded
+   */
+  has(sessionId: string): boolean {
+    return this.read().has(sessionId);
+  }
+
+  /**
+   * Mark a session as fully uploaded
+   */
+  add(sessionId: string): void {
+    withFileLock(this.lockPath, () => {
+      const ids = this.read();
+      if (ids.has(sessionId)) return;
+      ids.add(sessionId);
+
+      // Write to a temp file and rename so readers never see a partial file
+      mkdirSync(dirname(this.path), { recursive: true });
+      const tmpPath = `${this.path}.${process.pid}.tmp`;
+      writeFileSync(tmpPath, JSON.stringify([...ids], null, 2));
+      renameSync(tmpPath, this.path);
+    });
+  }
+
+  private read(): Set<string> {
+    try {
+      if (!existsSync(this.path)) return new Set();
+      const parsed = JSON.parse(readFileSync(this.path, "utf-8"));
+      return new Set(Array.isArray(parsed) ? parsed : []);
+    } catch {
+      return new Set(); // Corrupt ledger - worst case we re-upload idempotently
+    }
+  }
+}
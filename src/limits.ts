@@ -0,0 +1,108 @@
+/**
+ * Size of a string once encoded as UTF-8
+ */
+export function byteLength(text: string): number {
+  return Buffer.byteLength(text, "utf8");
+}
+
+/**
+ * Human-readable byte count, e.g. "240 KB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * First `maxBytes` bytes of a string, without splitting a character
+ */
+function headBytes(text: string, maxBytes: number): string {
+  return Buffer.from(text, "utf8").subarray(0, maxBytes).toString("utf8").replace(/\uFFFD+$/, "");
+}
+
+/**
+ * Last `maxBytes` bytes of a string, without splitting a character
+ */
+function tailBytes(text: string, maxBytes: number): string {
+  if (maxBytes <= 0) return "";
+  const bytes = Buffer.from(text, "utf8");
+  return bytes.subarray(Math.max(0, bytes.length - maxBytes)).toString("utf8").replace(/^\uFFFD+/, "");
+}
+
+function truncationMarker(omittedBytes: number): string {
+  return `\n\n[... ${omittedBytes.toLocaleString("en-US")} bytes truncated ...]\n\n`;
+}
+
+/**
+ * Shorten text to at most `maxBytes` by keeping its beginning and end
+ * around a marker that says how much was cut. The start of a build log or
+ * file and the end of an error trace are usually the parts worth keeping.
+ */
+export function truncateText(text: string, maxBytes: number): string {
+  const size = byteLength(text);
+  if (size <= maxBytes) return text;
+
+  const budget = Math.max(0, maxBytes - byteLength(truncationMarker(size)));
+  const head = headBytes(text, Math.ceil(budget / 2));
+  const tail = tailBytes(text, Math.floor(budget / 2));
+  return head + truncationMarker(size - byteLength(head) - byteLength(tail)) + tail;
+}
+
+/**
+ * Truncate every string inside a JSON-like value (tool arguments)
+ */
+export function truncateValue(value: unknown, maxBytes: number): unknown {
+  if (typeof value === "string") return truncateText(value, maxBytes);
+  if (Array.isArray(value)) return value.map((v) => truncateValue(v, maxBytes));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, truncateValue(v, maxBytes)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Shorten a JSON-like value (tool arguments) to at most `maxBytes` once
+ * serialized. Strings inside it are truncated to whatever room the rest of
+ * the value leaves, which keeps its shape; if it's still too big, e.g.
+ * because it holds many strings, it's replaced by its JSON text, truncated
+ * like any other text.
+ */
+export function limitValue(value: unknown, maxBytes: number): unknown {
+  const json = JSON.stringify(value) ?? "";
+  if (byteLength(json) <= maxBytes) return value;
+
+  const skeleton = byteLength(JSON.stringify(truncateValue(value, 0)));
+  const truncated = truncateValue(value, maxBytes - skeleton);
+  if (byteLength(JSON.stringify(truncated)) <= maxBytes) return truncated;
+
+  // Leave room for the escaping the text needs once it's serialized as a string
+  const escaping = byteLength(JSON.stringify(json)) - byteLength(json);
+  return truncateText(json, maxBytes - escaping);
+}
+
+/**
+ * Group items into consecutive chunks whose combined size stays within
+ * `maxBytes`. An item larger than the budget on its own gets its own chunk.
+ */
+export function chunkBySize<T>(items: T[], maxBytes: number, sizeOf: (item: T) => number): T[][] {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let currentSize = 0;
+
+  for (const item of items) {
+    const size = sizeOf(item);
+    if (current.length > 0 && currentSize + size > maxBytes) {
+      chunks.push(current);
+      current = [];
+      currentSize = 0;
+    }
+    current.push(item);
+    currentSize += size;
+  }
+
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
@@ -0,0 +1,62 @@
+import { closeSync, mkdirSync, openSync, rmSync, statSync } from "node:fs";
+import { dirname } from "node:path";
+
+/** Locks older than this are assumed to belong to a crashed process */
+export const LOCK_STALE_MS = 10_000;
+
+/** Give up acquiring the lock after this long */
+const LOCK_TIMEOUT_MS = 2_000;
+
+const LOCK_RETRY_MS = 25;
+
+/**
+ * Run fn while holding an exclusive lock file, so several pi processes can
+ * update the same file without losing each other's changes. Stale locks
+ * left behind by a crashed process are broken after LOCK_STALE_MS.
+ */
+export function withFileLock<T>(lockPath: string, fn: () => T): T {
+  mkdirSync(dirname(lockPath), { recursive: true });
+
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  let fd: number | undefined;
+  while (fd === undefined) {
+    try {
+      fd = openSync(lockPath, "wx");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      if (isLockStale(lockPath)) {
+        rmSync(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) throw new Error(`Timed out waiting for ${lockPath}`);
+      sleepSync(LOCK_RETRY_MS);
+    }
+  }
+
+  try {
+    return fn();
+  } finally {
+    closeSync(fd);
+    rmSync(lockPath, { force: true });
+  }
+}
+
+/**
+ * How long a lock has been held, or undefined when nobody holds it
+ */
+export function lockAge(lockPath: string): number | undefined {
+  try {
+    return Date.now() - statSync(lockPath).mtimeMs;
+  } catch {
+    return undefined; // No lock file
+  }
+}
+
+function isLockStale(lockPath: string): boolean {
+  // A lock that vanished between open and stat isn't stale - just retry
+  return (lockAge(lockPath) ?? 0) > LOCK_STALE_MS;
+}
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
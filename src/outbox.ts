@@ -0,0 +1,110 @@
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname } from "node:path";
+import { lockAge, withFileLock } from "./lock";
+
+/**
+ * A failed sync request waiting to be replayed
+ */
+export interface OutboxEntry {
+  endpoint: string;
+  payload: unknown;
+  queuedAt: number;
+}
+
+/**
+ * Durable on-disk queue of sync requests that could not be delivered.
+ *
+ * Entries are stored as JSONL, replayed in insertion order and only removed
+ * once delivered. Every write happens under a sibling lock file, so several
+ * pi processes can share the same outbox without losing entries. Processes
+ * replaying at the same time may both send an entry, which is harmless as
+ * the API upserts sessions and messages by ID.
+ */
+export class Outbox {
+  private path: string;
+  private lockPath: string;
+
+  constructor(path: string) {
+    this.path = path;
+    this.lockPath = `${path}.lock`;
+  }
+
+  /**
+   * Append a failed request to the end of the queue
+   */
+  enqueue(entry: OutboxEntry): void {
+    withFileLock(this.lockPath, () => {
+      mkdirSync(dirname(this.path), { recursive: true });
+      appendFileSync(this.path, JSON.stringify(entry) + "\n");
+    });
+  }
+
+  /**
+   * Number of requests currently waiting in the queue
+   */
+  size(): number {
+    return this.read().length;
+  }
+
+  /**
+   * Queued entries in replay order. Entries stay queued until remove() is
+   * called for them, so nothing is lost if the process exits mid-replay.
+   */
+  peek(): OutboxEntry[] {
+    return this.read();
+  }
+
+  /**
+   * How long the lock has been held, or undefined when nobody holds it
+   */
+  lockAge(): number | undefined {
+    return lockAge(this.lockPath);
+  }
+
+  /**
+   * Remove an entry once it has been delivered or rejected outright. An
+   * entry that's already gone, e.g. because another process replayed it, is
+   * ignored.
+   */
+  remove(entry: OutboxEntry): void {
+    const line = JSON.stringify(entry);
+    withFileLock(this.lockPath, () => {
+      const entries = this.read();
+      const index = entries.findIndex((e) => JSON.stringify(e) === line);
+      if (index === -1) return;
+
+      entries.splice(index, 1);
+      if (entries.length === 0) {
+        rmSync(this.path, { force: true });
+        return;
+      }
+
+      // Write to a temp file and rename so a crash or a concurrent peek()
+      // never sees a truncated queue
+      const tmpPath = `${this.path}.${process.pid}.tmp`;
+      writeFileSync(tmpPath, entries.map((e) => JSON.stringify(e) + "\n").join(""));
+      renameSync(tmpPath, this.path);
+    });
+  }
+
+  private read(): OutboxEntry[] {
+    if (!existsSync(this.path)) return [];
+
+    const entries: OutboxEntry[] = [];
+    for (const line of readFileSync(this.path, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch { } // Skip lines torn by a crash mid-write
+    }
+    return entries;
+  }
+}
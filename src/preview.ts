@@ -0,0 +1,139 @@
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { getEditorKeybindings, truncateToWidth, wrapTextWithAnsi } from "@mariozechner/pi-tui";
+import type { MessageData, MessagePayload, SessionData, SessionPayload, SyncClient } from "./client";
+import { byteLength, formatBytes } from "./limits";
+
+/**
+ * Payloads one destination would receive for the current session
+ */
+export interface DestinationPreview {
+  name: string;
+  session: SessionPayload;
+  messages: MessagePayload[];
+}
+
+/**
+ * Build the payloads each destination would receive, with the same
+ * filtering, redaction and truncation as a real sync. Nothing is sent.
+ */
+export function buildPreview(
+  clients: { name: string; client: SyncClient }[],
+  session: SessionData,
+  ctx: Pick<ExtensionContext, "sessionManager">,
+  messages: MessageData[]
+): DestinationPreview[] {
+  return clients.map(({ name, client }) => ({
+    name,
+    session: client.buildSessionPayload(session, ctx),
+    messages: messages.map((message) => client.buildMessagePayload(message, { dryRun: true })),
+  }));
+}
+
+/**
+ * Size of a payload as sent, before any compression
+ */
+function payloadBytes(payload: unknown): number {
+  return byteLength(JSON.stringify(payload));
+}
+
+/**
+ * Render previews as text: a summary per destination, then every payload
+ * as indented JSON under a header with its size
+ */
+export function formatPreview(previews: DestinationPreview[], notes: string[] = []): string[] {
+  const lines = ["OpenSync preview - nothing has been sent", ...notes];
+
+  for (const preview of previews) {
+    const total =
+      payloadBytes(preview.session) +
+      preview.messages.reduce((sum, message) => sum + payloadBytes(message), 0);
+    const count = preview.messages.length;
+
+    lines.push(
+      "",
+      `Destination ${preview.name}: session + ${count} message${count === 1 ? "" : "s"}, ${formatBytes(total)} total`,
+      "",
+      `── Session · ${formatBytes(payloadBytes(preview.session))} ──`,
+      ...JSON.stringify(preview.session, null, 2).split("\n")
+    );
+
+    preview.messages.forEach((message, i) => {
+      lines.push(
+        "",
+        `── Message ${i + 1}/${count} · ${message.role} · ${formatBytes(payloadBytes(message))} ──`,
+        ...JSON.stringify(message, null, 2).split("\n")
+      );
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Read-only scrollable view of preview text. Lines are wrapped to the
+ * available width so long payload values stay readable.
+ */
+export class PreviewComponent {
+  private lines: string[];
+  private height: () => number;
+  private onClose: () => void;
+  private offset = 0;
+  private wrapped?: { width: number; lines: string[] };
+
+  constructor(lines: string[], height: () => number, onClose: () => void) {
+    this.lines = lines;
+    this.height = height;
+    this.onClose = onClose;
+  }
+
+  render(width: number): string[] {
+    const lines = this.wrap(width);
+    const visible = this.visibleRows();
+    this.offset = Math.max(0, Math.min(this.offset, lines.length - visible));
+
+    const end = Math.min(lines.length, this.offset + visible);
+    const position = `${this.offset + 1}-${end} of ${lines.length}`;
+    return [
+      "─".repeat(width),
+      ...lines.slice(this.offset, end),
+      "─".repeat(width),
+      truncateToWidth(`${position} • ↑↓ scroll • pgup/pgdn page • esc close`, width),
+    ];
+  }
+
+  invalidate(): void {
+    this.wrapped = undefined;
+  }
+
+  handleInput(data: string): void {
+    const kb = getEditorKeybindings();
+    const page = Math.max(1, this.visibleRows() - 1);
+
+    if (kb.matches(data, "selectCancel") || data === "q") {
+      this.onClose();
+    } else if (kb.matches(data, "selectUp")) {
+      this.offset = Math.max(0, this.offset - 1);
+    } else if (kb.matches(data, "selectDown")) {
+      this.offset++;
+    } else if (kb.matches(data, "selectPageUp")) {
+      this.offset = Math.max(0, this.offset - page);
+    } else if (kb.matches(data, "selectPageDown")) {
+      this.offset += page;
+    }
+  }
+
+  /**
+   * Rows available for content, leaving room for the borders and footer
+   */
+  private visibleRows(): number {
+    return Math.max(1, this.height() - 4);
+  }
+
+  private wrap(width: number): string[] {
+    if (this.wrapped?.width !== width) {
+      const lines = this.lines.flatMap((line) => (line ? wrapTextWithAnsi(line, width) : [""]));
+      this.wrapped = { width, lines };
+    }
+    return this.wrapped.lines;
+  }
+}
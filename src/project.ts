@@ -0,0 +1,84 @@
+import { existsSync } from "node:fs";
+import { dirname, join } from "node:path";
+import type { Config } from "./config";
+import { getRemoteUrls } from "./git";
+import { matchesGlob } from "./glob";
+
+/** Marker file that opts a project and everything below it out of syncing */
+export const IGNORE_MARKER = join(".pi", "opensync-ignore");
+
+/**
+ * Conditions identifying a set of projects. A matcher matches when every
+ * condition it sets matches; a matcher with no conditions matches everything.
+ */
+export interface ProjectMatcher {
+  /** Glob for the project directory, e.g. `~/work/**` */
+  path?: string;
+  /** Glob for any git remote, normalized to `host/owner/repo`, e.g. `github.com/acme/*` */
+  remote?: string;
+}
+
+/**
+ * Project facts that matchers are evaluated against
+ */
+export interface ProjectInfo {
+  path: string;
+  remotes: string[];
+}
+
+/**
+ * Whether a matcher matches a project
+ */
+export function matchesProject(matcher: ProjectMatcher, project: ProjectInfo): boolean {
+  return (
+    (matcher.path === undefined || matchesGlob(project.path, matcher.path)) &&
+    (matcher.remote === undefined || project.remotes.some((r) => matchesGlob(r, matcher.remote!)))
+  );
+}
+
+/**
+ * Gather the facts about a project directory that config rules look at.
+ * Git is only consulted when some rule matches on remotes.
+ */
+export async function inspectProject(config: Config, cwd: string): Promise<ProjectInfo> {
+  const matchers: ProjectMatcher[] = [...config.routes, ...config.include, ...config.exclude, ...config.tagRules];
+  const remotes = matchers.some((m) => m.remote !== undefined) ? await getRemoteUrls(cwd) : [];
+  return { path: cwd, remotes };
+}
+
+/**
+ * Nearest ignore marker in the project directory or any of its parents
+ */
+export function findIgnoreMarker(cwd: string): string | undefined {
+  for (let dir = cwd; ; dir = dirname(dir)) {
+    const marker = join(dir, IGNORE_MARKER);
+    if (existsSync(marker)) return marker;
+    if (dirname(dir) === dir) return undefined;
+  }
+}
+
+/**
+ * Why a project must not be synced, or undefined if it may be. The ignore
+ * marker and exclude rules always win; when include rules are configured,
+ * only projects matching one of them are synced.
+ */
+export function exclusionReason(config: Config, project: ProjectInfo): string | undefined {
+  const marker = findIgnoreMarker(project.path);
+  if (marker) return `found ${marker}`;
+
+  const excluded = config.exclude.find((matcher) => matchesProject(matcher, project));
+  if (excluded) return `matches exclude rule ${describeMatcher(excluded)}`;
+
+  if (config.include.length > 0 && !config.include.some((matcher) => matchesProject(matcher, project))) {
+    return "not matched by any include rule";
+  }
+
+  return undefined;
+}
+
+function describeMatcher(matcher: ProjectMatcher): string {
+  const conditions = [];
+  if (matcher.path !== undefined) conditions.push(`path "${matcher.path}"`);
+  if (matcher.remote !== undefined) conditions.push(`remote "${matcher.remote}"`);
+  return conditions.length > 0 ? conditions.join(" and ") : "(matches everything)";
+}
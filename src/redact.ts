@@ -0,0 +1,102 @@
+/**
+ * User-defined redaction pattern from config
+ */
+export interface RedactionPattern {
+  /** Label shown in the marker, e.g. [REDACTED:internal-host] */
+  name: string;
+  /** JavaScript regular expression source */
+  pattern: string;
+  /** Extra regex flags; "g" is always added */
+  flags?: string;
+}
+
+/**
+ * Compiled detector. When `keep` is set, that many leading capture groups
+ * are preserved so `KEY=secret` becomes `KEY=[REDACTED:...]`.
+ */
+interface Detector {
+  name: string;
+  regex: RegExp;
+  keep?: number;
+}
+
+/**
+ * Built-in detectors for common credential formats. Order matters: more
+ * specific formats must run before the generic ones that would also match
+ * them (Anthropic keys also look like OpenAI keys).
+ */
+const BUILTIN_DETECTORS: Detector[] = [
+  {
+    name: "private-key",
+    regex: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY-----/g,
+  },
+  { name: "aws-access-key", regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    name: "aws-secret-key",
+    regex: /(aws_secret_access_key["']?\s*[=:]\s*["']?)[A-Za-z0-9/+=]{40}/gi,
+    keep: 1,
+  },
+  { name: "github-token", regex: /\b(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36,}\b/g },
+  { name: "github-token", regex: /\bgithub_pat_[A-Za-z0-9_]{22,}/g },
+  { name: "anthropic-key", regex: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: "openai-key", regex: /\bsk-(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{20,}/g },
+  { name: "opensync-key", regex: /\bosk_[A-Za-z0-9_-]{12,}/g },
+  { name: "jwt", regex: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+];
+
+/**
+ * Replaces secrets with visible `[REDACTED:type]` markers before payloads
+ * leave the machine.
+ *
+ * Invalid user patterns are skipped rather than failing the sync; they are
+ * exposed via `invalidPatterns` so configuration problems can be surfaced.
+ */
+export class Redactor {
+  private detectors: Detector[];
+  readonly invalidPatterns: { name: string; error: string }[] = [];
+
+  constructor(options: { redactSecrets: boolean; redactPatterns?: RedactionPattern[] }) {
+    this.detectors = options.redactSecrets ? [...BUILTIN_DETECTORS] : [];
+
+    for (const custom of options.redactPatterns ?? []) {
+      try {
+        const flags = new Set(`g${custom.flags ?? ""}`);
+        this.detectors.push({ name: custom.name, regex: new RegExp(custom.pattern, [...flags].join("")) });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.invalidPatterns.push({ name: custom.name, error: message });
+      }
+    }
+  }
+
+  /**
+   * Redact secrets in a string
+   */
+  redact(text: string): string {
+    let result = text;
+    for (const { name, regex, keep } of this.detectors) {
+      result = result.replace(regex, (match, ...groups) => {
+        // Guard against patterns that match the empty string
+        if (match === "") return match;
+        const kept = keep ? groups.slice(0, keep).join("") : "";
+        return `${kept}[REDACTED:${name}]`;
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Redact secrets in every string inside a JSON-like value (tool arguments)
+   */
+  redactValue(value: unknown): unknown {
+    if (this.detectors.length === 0) return value;
+    if (typeof value === "string") return this.redact(value);
+    if (Array.isArray(value)) return value.map((v) => this.redactValue(v));
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [k, this.redactValue(v)])
+      );
+    }
+    return value;
+  }
+}
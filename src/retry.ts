@@ -0,0 +1,49 @@
+/**
+ * How SyncClient retries transient failures
+ */
+export interface RetryPolicy {
+  /** Additional attempts after the first one (0 disables retries) */
+  maxRetries: number;
+  /** Backoff ceiling for the first retry; doubles with every attempt */
+  baseDelayMs: number;
+  /** Upper bound for any single wait, including server-requested ones */
+  maxDelayMs: number;
+}
+
+/**
+ * Transient HTTP failures that are worth retrying. Other 4xx responses mean
+ * the payload or credentials are wrong and will fail the same way again.
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds.
+ * Returns undefined when the header is missing or unparseable.
+ */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | undefined {
+  if (!header) return undefined;
+
+  const value = header.trim();
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Math.round(Number(value) * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Delay before the given retry (1-based) using exponential backoff with full
+ * jitter, so concurrent pi processes don't retry in lockstep.
+ */
+export function backoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(random() * ceiling);
+}
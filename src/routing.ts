@@ -0,0 +1,209 @@
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { SyncClient } from "./client";
+import type { DestinationStatus, MessageData, SessionData, SyncResult, SyncTarget } from "./client";
+import type { Config } from "./config";
+import { Outbox } from "./outbox";
+import { matchesProject, type ProjectInfo, type ProjectMatcher } from "./project";
+
+/** Profile name for the top-level `convexUrl`/`apiKey` destination */
+export const DEFAULT_PROFILE = "default";
+
+/**
+ * Named OpenSync destination. Fields left out inherit the top-level config.
+ */
+export type ProfileConfig = Partial<
+  Pick<
+    Config,
+    | "convexUrl"
+    | "apiKey"
+    | "transport"
+    | "exportDir"
+    | "syncToolCalls"
+    | "syncThinking"
+    | "redactSecrets"
+    | "redactPatterns"
+  >
+>;
+
+/**
+ * Routing rule mapping projects to profiles
+ */
+export interface RouteRule extends ProjectMatcher {
+  /** Profiles to sync matching sessions to */
+  profiles: string[];
+}
+
+/**
+ * Destination with its effective configuration
+ */
+export interface Destination {
+  name: string;
+  config: Config;
+}
+
+/**
+ * Find the first routing rule matching a project
+ */
+export function matchRoute(routes: RouteRule[], project: ProjectInfo): RouteRule | undefined {
+  return routes.find((rule) => matchesProject(rule, project));
+}
+
+/**
+ * Resolve which destinations a project syncs to. Projects matching no rule
+ * use the default profile. Profile names that aren't configured are
+ * reported as missing rather than silently falling back to the default,
+ * so a typo never sends work sessions to a personal dashboard.
+ */
+export function resolveDestinations(
+  config: Config,
+  project: ProjectInfo
+): { destinations: Destination[]; missing: string[] } {
+  const names = matchRoute(config.routes, project)?.profiles ?? [DEFAULT_PROFILE];
+  const destinations: Destination[] = [];
+  const missing: string[] = [];
+
+  for (const name of new Set(names)) {
+    if (name === DEFAULT_PROFILE) {
+      destinations.push({ name, config });
+    } else if (config.profiles[name]) {
+      destinations.push({ name, config: { ...config, ...config.profiles[name] } });
+    } else {
+      missing.push(name);
+    }
+  }
+
+  return { destinations, missing };
+}
+
+/**
+ * Sends every request to several destinations at once.
+ *
+ * The combined result succeeds only if every destination succeeded, and
+ * counts as queued only if every failure was queued for retry.
+ */
+export class FanoutClient implements SyncTarget {
+  private clients: { name: string; client: SyncTarget }[];
+
+  constructor(clients: { name: string; client: SyncTarget }[]) {
+    this.clients = clients;
+  }
+
+  async syncSession(
+    session: SessionData,
+    ctx: Pick<ExtensionContext, "sessionManager">,
+    isFinal = false
+  ): Promise<SyncResult> {
+    return this.each((client) => client.syncSession(session, ctx, isFinal));
+  }
+
+  async syncMessage(message: MessageData): Promise<SyncResult> {
+    return this.each((client) => client.syncMessage(message));
+  }
+
+  async syncBatch(messages: MessageData[]): Promise<SyncResult> {
+    return this.each((client) => client.syncBatch(messages));
+  }
+
+  deferSession(
+    session: SessionData,
+    ctx: Pick<ExtensionContext, "sessionManager">,
+    isFinal = false
+  ): SyncResult {
+    return this.combine(this.clients.map(({ client }) => client.deferSession(session, ctx, isFinal)));
+  }
+
+  deferBatch(messages: MessageData[]): SyncResult {
+    return this.combine(this.clients.map(({ client }) => client.deferBatch(messages)));
+  }
+
+  async flushOutbox(): Promise<SyncResult> {
+    return this.each((client) => client.flushOutbox());
+  }
+
+  pendingCount(): number {
+    return this.clients.reduce((total, { client }) => total + client.pendingCount(), 0);
+  }
+
+  status(): DestinationStatus[] {
+    return this.clients.flatMap(({ name, client }) =>
+      client.status().map((status) => ({ ...status, name: status.name ?? name }))
+    );
+  }
+
+  private async each(fn: (client: SyncTarget) => Promise<SyncResult>): Promise<SyncResult> {
+    return this.combine(await Promise.all(this.clients.map(({ client }) => fn(client))));
+  }
+
+  private combine(results: SyncResult[]): SyncResult {
+    const failures = results
+      .map((result, i) => ({ name: this.clients[i].name, result }))
+      .filter(({ result }) => !result.success);
+
+    if (failures.length === 0) return { success: true };
+    return {
+      success: false,
+      error: failures.map(({ name, result }) => `${name}: ${result.error}`).join("; "),
+      queued: failures.every(({ result }) => result.queued),
+    };
+  }
+}
+
+/**
+ * Picks the destinations for a project and hands out clients for them.
+ *
+ * One SyncClient is built per destination and reused across sessions, each
+ * with its own outbox so a destination that is down doesn't hold up
+ * delivery to the others.
+ */
+export class SyncRouter {
+  private config: Config;
+  private outboxFile?: (destination: string) => string;
+  private clients = new Map<string, SyncClient>();
+
+  constructor(config: Config, options: { outboxFile?: (destination: string) => string } = {}) {
+    this.config = config;
+    this.outboxFile = options.outboxFile;
+  }
+
+  /**
+   * Client for a project, along with the destinations it syncs to and any
+   * routed profiles that don't exist
+   */
+  forProject(project: ProjectInfo): { client: SyncTarget; destinations: Destination[]; missing: string[] } {
+    const { clients, destinations, missing } = this.clientsForProject(project);
+    const client = clients.length === 1 ? clients[0].client : new FanoutClient(clients);
+
+    return { client, destinations, missing };
+  }
+
+  /**
+   * One client per destination of a project, for callers that need to treat
+   * destinations separately
+   */
+  clientsForProject(project: ProjectInfo): {
+    clients: { name: string; client: SyncClient }[];
+    destinations: Destination[];
+    missing: string[];
+  } {
+    const { destinations, missing } = resolveDestinations(this.config, project);
+    const clients = destinations.map((destination) => ({
+      name: destination.name,
+      client: this.clientFor(destination),
+    }));
+
+    return { clients, destinations, missing };
+  }
+
+  private clientFor(destination: Destination): SyncClient {
+    let client = this.clients.get(destination.name);
+    if (!client) {
+      const path = this.outboxFile?.(destination.name);
+      client = new SyncClient(destination.config, {
+        name: destination.name,
+        outbox: path ? new Outbox(path) : undefined,
+      });
+      this.clients.set(destination.name, client);
+    }
+    return client;
+  }
+}
@@ -0,0 +1,62 @@
+import type { SessionEntry } from "@mariozechner/pi-coding-agent";
+import type { ModelUsage, UsageTotals } from "./client";
+import type { GitContext } from "./git";
+
+/** Custom entry type recording pause and private mode changes */
+export const SYNC_MODE_ENTRY = "opensync-sync-mode";
+
+/**
+ * Per-session message sync mode, persisted as a custom session entry so it
+ * survives /reload and applies when the session is resumed or forked
+ */
+export interface SyncMode {
+  /** Message content is not synced until resumed */
+  paused: boolean;
+  /** Only session metadata is synced, never message content */
+  private: boolean;
+}
+
+/**
+ * Session state tracked in memory during a session's lifetime.
+ * Accumulates usage statistics and message counts for sync updates.
+ */
+export interface SessionState extends UsageTotals {
+  sessionId: string;
+  parentSessionId?: string;
+  projectPath: string;
+  model?: string;
+  provider?: string;
+  messageCount: number;
+  toolCallCount: number;
+  /** Repository state, collected at start and refreshed at shutdown */
+  git?: GitContext;
+  /** Tags synced with the session: the user's plus those from tag rules */
+  tags: string[];
+  /** Tags added with /opensync:tag, kept in the session file */
+  userTags: string[];
+  /** Usage per model, since the session's model can change along the way */
+  models: ModelUsage[];
+  startedAt: number;
+  mode: SyncMode;
+  /** Message IDs already synced or deliberately skipped in this session */
+  syncedMessageIds: Set<string>;
+}
+
+/**
+ * Apply a session entry to the sync mode, returning the updated mode
+ */
+export function applySyncModeEntry(mode: SyncMode, entry: SessionEntry): SyncMode {
+  if (entry.type !== "custom" || entry.customType !== SYNC_MODE_ENTRY) return mode;
+  const data = entry.data as Partial<SyncMode> | undefined;
+  return {
+    paused: data?.paused ?? mode.paused,
+    private: data?.private ?? mode.private,
+  };
+}
+
+/**
+ * Sync mode in effect at the end of a branch
+ */
+export function readSyncMode(branch: SessionEntry[]): SyncMode {
+  return branch.reduce(applySyncModeEntry, { paused: false, private: false });
+}
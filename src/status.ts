@@ -0,0 +1,117 @@
+import type { DestinationStatus, RequestRecord } from "./client";
+import type { Config } from "./config";
+import type { GitContext } from "./git";
+import type { SessionState } from "./session";
+
+/**
+ * Everything /opensync:status reports on, captured at the time of the call
+ */
+export interface StatusSnapshot {
+  /** Effective config, or null when OpenSync isn't configured */
+  config: Config | null;
+  /** Current session, or null before session_start or for excluded projects */
+  session: SessionState | null;
+  /** Destinations the current session syncs to */
+  destinations: DestinationStatus[];
+  /** Requests waiting in the background queue or in flight */
+  queued?: number;
+  /** Why the current project isn't synced, if it isn't */
+  exclusion?: string;
+}
+
+/**
+ * Render a status snapshot as the text shown by /opensync:status
+ */
+export function formatStatus(snapshot: StatusSnapshot, now = Date.now()): string {
+  const { config, session, destinations, queued, exclusion } = snapshot;
+
+  if (!config) {
+    return (
+      "OpenSync is not configured. " +
+      "Run /opensync:config to set it up, or /opensync:doctor to find out what's wrong."
+    );
+  }
+
+  const lines = ["OpenSync status"];
+
+  if (config.autoSync === false) {
+    lines.push("Auto sync: disabled");
+  }
+
+  if (exclusion) {
+    lines.push(`Project: excluded (${exclusion})`);
+  } else if (config.autoSync !== false) {
+    lines.push("Project: synced");
+  }
+
+  if (session) {
+    lines.push("", `Session: ${session.sessionId}`);
+    lines.push(`Message sync: ${describeMode(config, session)}`);
+    if (session.parentSessionId) lines.push(`Forked from: ${session.parentSessionId}`);
+    if (session.model) {
+      lines.push(`Model: ${session.model}${session.provider ? ` (${session.provider})` : ""}`);
+    }
+    if (session.git) lines.push(`Git: ${describeGit(session.git)}`);
+    if (session.tags.length > 0) lines.push(`Tags: ${session.tags.join(", ")}`);
+    lines.push(
+      `Messages: ${session.messageCount}, tool calls: ${session.toolCallCount}`,
+      `Tokens: ${session.promptTokens} prompt${describeCache(session)}, ${session.completionTokens} completion`,
+      `Cost: $${session.cost.toFixed(4)}`
+    );
+    // A breakdown only adds information once more than one model was used
+    if (session.models.length > 1) {
+      for (const usage of session.models) {
+        const tokens = usage.promptTokens + usage.completionTokens;
+        lines.push(`  ${usage.model} (${usage.provider}): ${tokens} tokens, $${usage.cost.toFixed(4)}`);
+      }
+    }
+  }
+
+  if (queued !== undefined && config.autoSync !== false) {
+    lines.push("", `Queued requests: ${queued}`);
+  }
+
+  for (const destination of destinations) {
+    lines.push("", `Destination${destination.name ? ` ${destination.name}` : ""}: ${destination.url}`);
+    lines.push(`  Last success: ${formatRecord(destination.lastSuccess, now)}`);
+    lines.push(`  Last failure: ${formatRecord(destination.lastFailure, now)}`);
+    lines.push(`  Pending in outbox: ${destination.pending}`);
+  }
+
+  return lines.join("\n");
+}
+
+function describeMode(config: Config, session: SessionState): string {
+  if (config.privateMode) return "private (metadata only, set in config)";
+  if (session.mode.private) return "private (metadata only)";
+  if (session.mode.paused) return "paused";
+  return "active";
+}
+
+function describeGit(git: GitContext): string {
+  const commit = git.endCommit ? ` at ${git.endCommit.slice(0, 7)}` : "";
+  const remote = git.remote ? ` (${git.remote})` : "";
+  return `${git.branch ?? "detached HEAD"}${commit}${remote}${git.dirty ? ", uncommitted changes" : ""}`;
+}
+
+function describeCache(session: SessionState): string {
+  if (session.cacheReadTokens === 0 && session.cacheWriteTokens === 0) return "";
+  return ` (${session.cacheReadTokens} cache read, ${session.cacheWriteTokens} cache write)`;
+}
+
+function formatRecord(record: RequestRecord | undefined, now: number): string {
+  if (!record) return "none";
+  const text = `${record.endpoint} ${formatAgo(now - record.at)}`;
+  return record.error ? `${text}: ${record.error}` : text;
+}
+
+/**
+ * Rough age of an event, e.g. `5s ago` or `2h ago`
+ */
+export function formatAgo(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  return `${Math.round(minutes / 60)}h ago`;
+}
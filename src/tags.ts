@@ -0,0 +1,104 @@
+import type { SessionEntry } from "@mariozechner/pi-coding-agent";
+import { matchesGlob } from "./glob";
+import { matchesProject, type ProjectInfo, type ProjectMatcher } from "./project";
+
+/** Custom entry type recording the tags added with /opensync:tag */
+export const TAGS_ENTRY = "opensync-tags";
+
+/**
+ * Tags added to every session that matches the rule. Besides the project
+ * conditions, a rule can match on the models used and the git branch; it
+ * matches when every condition it sets matches.
+ */
+export interface TagRule extends ProjectMatcher {
+  /** Glob for the name of any model used in the session, e.g. `*Opus*` */
+  model?: string;
+  /** Regular expression for the git branch; `$1`, `$2`... in tags insert its capture groups */
+  branch?: string;
+  tags: string[];
+}
+
+/**
+ * Session facts that tag rules are evaluated against
+ */
+export interface TagFacts {
+  project: ProjectInfo;
+  branch?: string;
+  /** Names of the models used so far */
+  models: string[];
+}
+
+/**
+ * Combine tag lists, dropping blanks and duplicates while keeping the
+ * order tags were first seen in
+ */
+export function mergeTags(...lists: string[][]): string[] {
+  const tags = new Set<string>();
+  for (const list of lists) {
+    for (const tag of list) {
+      const trimmed = tag.trim();
+      if (trimmed) tags.add(trimmed);
+    }
+  }
+  return [...tags];
+}
+
+/**
+ * Match a branch pattern, treating invalid patterns as never matching
+ */
+function matchBranch(branch: string | undefined, pattern: string): RegExpMatchArray | null {
+  if (branch === undefined) return null;
+  try {
+    return branch.match(new RegExp(pattern));
+  } catch {
+    return null; // Invalid pattern - the rule can't match
+  }
+}
+
+/**
+ * Tags from every rule matching the session
+ */
+export function autoTags(rules: TagRule[], facts: TagFacts): string[] {
+  const tags: string[] = [];
+  for (const rule of rules) {
+    if (!Array.isArray(rule.tags) || !matchesProject(rule, facts.project)) continue;
+    if (rule.model !== undefined && !facts.models.some((m) => matchesGlob(m, rule.model!))) continue;
+
+    const match = rule.branch !== undefined ? matchBranch(facts.branch, rule.branch) : null;
+    if (rule.branch !== undefined && !match) continue;
+
+    for (const tag of rule.tags) {
+      tags.push(match ? tag.replace(/\$(\d)/g, (_, group: string) => match[Number(group)] ?? "") : tag);
+    }
+  }
+  return mergeTags(tags);
+}
+
+/**
+ * Tags added with /opensync:tag, as last recorded on the branch
+ */
+export function readTags(branch: SessionEntry[]): string[] {
+  for (let i = branch.length - 1; i >= 0; i--) {
+    const entry = branch[i];
+    if (entry.type !== "custom" || entry.customType !== TAGS_ENTRY) continue;
+    const tags = (entry.data as { tags?: unknown } | undefined)?.tags;
+    return Array.isArray(tags) ? mergeTags(tags.filter((t): t is string => typeof t === "string")) : [];
+  }
+  return [];
+}
+
+/**
+ * Apply `/opensync:tag` arguments to a session's tags: `name` adds a tag
+ * and `-name` removes one
+ */
+export function applyTagArgs(tags: string[], args: string): string[] {
+  let result = [...tags];
+  for (const token of args.split(/\s+/).filter(Boolean)) {
+    if (token.startsWith("-") && token.length > 1) {
+      result = result.filter((tag) => tag !== token.slice(1));
+    } else {
+      result = mergeTags(result, [token]);
+    }
+  }
+  return result;
+}
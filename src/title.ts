@@ -0,0 +1,208 @@
+import { basename } from "node:path";
+import { complete, type Api, type Model } from "@mariozechner/pi-ai";
+import type { SessionEntry, SessionManager } from "@mariozechner/pi-coding-agent";
+import type { MessageData, SessionData } from "./client";
+import { applySyncModeEntry, type SyncMode } from "./session";
+
+/**
+ * How a session without a name in pi is titled:
+ * - `first-message`: the first synced user message, shortened
+ * - `template`: `titleTemplate` with its variables filled in
+ * - `summary`: a short summary written by the session's model at shutdown,
+ *   with the first message used until then
+ */
+export type TitleStrategy = "first-message" | "template" | "summary";
+
+export const TITLE_STRATEGIES: TitleStrategy[] = ["first-message", "template", "summary"];
+
+/** Custom session entry holding a generated title, so resume and backfill keep it */
+export const TITLE_ENTRY = "opensync-title";
+
+/** Longest title taken from message text */
+const MAX_TITLE_LENGTH = 80;
+
+/** How often the session name is checked for renames in pi */
+export const RENAME_POLL_MS = 2_000;
+
+/** How long shutdown waits for the model to write a summary title */
+export const SUMMARY_TIMEOUT_MS = 5_000;
+
+/** Transcript sent to the model for a summary, cut to keep the request cheap */
+const SUMMARY_INPUT_CHARS = 8_000;
+
+const SUMMARY_PROMPT =
+  "You write titles for coding agent sessions. Reply with only a title of at most eight words " +
+  "describing what the session worked on, without quotes or trailing punctuation.";
+
+/**
+ * Settings that decide a session's title
+ */
+export interface TitleOptions {
+  titleStrategy: TitleStrategy;
+  titleTemplate: string;
+  forkTitleTemplate: string;
+  /** Whether titles may be taken from message content */
+  includeContent: boolean;
+}
+
+/**
+ * Values available to title templates as `{name}`
+ */
+export interface TitleVariables {
+  project: string;
+  branch?: string;
+  date?: string;
+  parent?: string;
+  message?: string;
+  /** The title being prefixed, only for fork templates */
+  title?: string;
+}
+
+const TITLE_VARIABLES = new Set<string>(["project", "branch", "date", "parent", "message", "title"]);
+
+/**
+ * Collapse text to a single line no longer than `maxLength`, cutting at a
+ * word boundary where there is one
+ */
+export function shortenTitle(text: string, maxLength = MAX_TITLE_LENGTH): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  if (line.length <= maxLength) return line;
+
+  const cut = line.slice(0, maxLength - 1);
+  const space = cut.lastIndexOf(" ");
+  return `${(space > maxLength / 2 ? cut.slice(0, space) : cut).trimEnd()}…`;
+}
+
+/**
+ * Fill in a title template. Variables without a value become empty and
+ * separators left dangling at the end are dropped; unknown variables are
+ * kept as written so typos stay visible.
+ */
+export function renderTitleTemplate(template: string, variables: TitleVariables): string {
+  return template
+    .replace(/\{(\w+)\}/g, (match, name: string) =>
+      TITLE_VARIABLES.has(name) ? (variables[name as keyof TitleVariables] ?? "") : match
+    )
+    .replace(/\s+/g, " ")
+    .replace(/[\s:·|,-]+$/, "")
+    .trim();
+}
+
+/**
+ * Calendar date in local time, e.g. `2026-10-19`
+ */
+function formatDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Text of the first user message synced with content, and the latest
+ * generated title on the branch
+ */
+function scanBranch(branch: SessionEntry[]): { message?: string; summary?: string } {
+  let mode: SyncMode = { paused: false, private: false };
+  let message: string | undefined;
+  let summary: string | undefined;
+
+  for (const entry of branch) {
+    mode = applySyncModeEntry(mode, entry);
+
+    if (entry.type === "custom" && entry.customType === TITLE_ENTRY) {
+      const title = (entry.data as { title?: unknown } | undefined)?.title;
+      if (typeof title === "string" && title) summary = title;
+    } else if (
+      message === undefined &&
+      entry.type === "message" &&
+      entry.message.role === "user" &&
+      !mode.paused &&
+      !mode.private
+    ) {
+      const content = entry.message.content;
+      const text =
+        typeof content === "string"
+          ? content
+          : content.flatMap((p) => (p.type === "text" ? [p.text] : [])).join("\n");
+      if (text.trim()) message = text;
+    }
+  }
+
+  return { message, summary };
+}
+
+/**
+ * Title for a session. A name given in pi always wins; otherwise the
+ * configured strategy decides, falling back to "Untitled". Forks are then
+ * wrapped in the fork template.
+ */
+export function sessionTitle(
+  options: TitleOptions,
+  session: SessionData,
+  sessionManager: Pick<SessionManager, "getSessionName" | "getBranch">
+): string {
+  const scanned = options.includeContent ? scanBranch(sessionManager.getBranch()) : {};
+  const variables: TitleVariables = {
+    project: basename(session.projectPath),
+    branch: session.git?.branch,
+    date: session.startedAt ? formatDate(session.startedAt) : undefined,
+    parent: session.parentSessionId?.slice(0, 8),
+    message: scanned.message && shortenTitle(scanned.message),
+  };
+
+  let title = sessionManager.getSessionName();
+  if (!title) {
+    if (options.titleStrategy === "template") {
+      title = renderTitleTemplate(options.titleTemplate, variables);
+    } else if (options.titleStrategy === "summary") {
+      title = scanned.summary ?? variables.message;
+    } else {
+      title = variables.message;
+    }
+  }
+  title ||= "Untitled";
+
+  if (!session.parentSessionId) return title;
+  return renderTitleTemplate(options.forkTitleTemplate, { ...variables, title }) || title;
+}
+
+/**
+ * Ask a model for a short title summarizing the session's messages.
+ * Returns undefined when there's nothing to summarize or the request fails.
+ */
+export async function summarizeTitle(
+  model: Model<Api>,
+  apiKey: string | undefined,
+  messages: MessageData[],
+  signal?: AbortSignal
+): Promise<string | undefined> {
+  const lines: string[] = [];
+  for (const message of messages) {
+    if (message.role === "user") {
+      lines.push(`User: ${message.text}`);
+    } else if (message.role === "assistant") {
+      const text = message.content.flatMap((p) => (p.type === "text" ? [p.text] : [])).join("\n");
+      if (text) lines.push(`Assistant: ${text}`);
+    }
+  }
+  const transcript = lines.join("\n\n").slice(0, SUMMARY_INPUT_CHARS);
+  if (!transcript) return undefined;
+
+  try {
+    const response = await complete(
+      model,
+      {
+        systemPrompt: SUMMARY_PROMPT,
+        messages: [{ role: "user", content: transcript, timestamp: Date.now() }],
+      },
+      { apiKey, signal, maxTokens: 100 }
+    );
+    if (response.stopReason === "error" || response.stopReason === "aborted") return undefined;
+
+    const text = response.content.flatMap((p) => (p.type === "text" ? [p.text] : [])).join(" ");
+    const title = shortenTitle(text.trim().replace(/^["'`]+|["'`.]+$/g, ""));
+    return title || undefined;
+  } catch {
+    return undefined; // A missing title isn't worth failing shutdown over
+  }
+}
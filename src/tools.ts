@@ -0,0 +1,35 @@
+/**
+ * How much of a tool's activity is synced:
+ * - `all`: the call and its result
+ * - `call`: the call and whether it failed, but not the result's content
+ * - `none`: nothing, as if the tool was never called
+ */
+export type ToolSyncRule = "all" | "call" | "none";
+
+/** Every rule, from least to most strict */
+export const TOOL_SYNC_RULES: ToolSyncRule[] = ["all", "call", "none"];
+
+/**
+ * Rules keyed by tool name. Tools without a rule are synced in full.
+ */
+export type ToolRules = Record<string, ToolSyncRule>;
+
+/**
+ * Rule for a tool, falling back to `all` for unlisted tools and for values
+ * that aren't a known rule
+ */
+export function toolRuleFor(rules: ToolRules, toolName: string): ToolSyncRule {
+  const rule = Object.hasOwn(rules, toolName) ? rules[toolName] : undefined;
+  return rule && TOOL_SYNC_RULES.includes(rule) ? rule : "all";
+}
+
+/**
+ * Short summary of configured rules for display, e.g. "read: call, secrets: none"
+ */
+export function describeToolRules(rules: ToolRules): string {
+  const entries = Object.keys(rules)
+    .filter((name) => toolRuleFor(rules, name) !== "all")
+    .sort()
+    .map((name) => `${name}: ${rules[name]}`);
+  return entries.length > 0 ? entries.join(", ") : "all tools";
+}
@@ -0,0 +1,183 @@
+import { accessSync, appendFileSync, constants, mkdirSync } from "node:fs";
+import { join } from "node:path";
+import { gzipSync } from "node:zlib";
+import type { SyncResult } from "./client";
+import { isRetryableStatus, parseRetryAfter } from "./retry";
+
+/**
+ * Result of a single delivery attempt, before retry and outbox handling
+ */
+export interface TransportResult extends SyncResult {
+  /** Whether the failure is transient and worth replaying later */
+  retryable?: boolean;
+  /** Server-requested wait from a Retry-After header */
+  retryAfterMs?: number;
+  /** HTTP status of a failed request, for debug logs */
+  status?: number;
+  /** Parsed response body of a successful request, for debug logs */
+  response?: unknown;
+}
+
+/**
+ * Delivers OpenSync API payloads somewhere. SyncClient builds the payloads
+ * and handles retries and the outbox; a transport only makes one attempt.
+ */
+export interface Transport {
+  /** Where payloads go, shown in status output */
+  readonly target: string;
+  /** Deliver one payload for an API endpoint such as `/sync/session` */
+  send(endpoint: string, payload: unknown): Promise<TransportResult>;
+  /** Check the destination is usable, without sending any data */
+  check(): Promise<SyncResult>;
+}
+
+/**
+ * Sends payloads to an OpenSync deployment's HTTP API
+ */
+export class HttpTransport implements Transport {
+  readonly target: string;
+  private apiKey: string;
+  private gzip: boolean;
+
+  constructor(options: { convexUrl: string; apiKey: string; gzip?: boolean }) {
+    // Convex dashboard shows .convex.cloud URLs, but HTTP endpoints use .convex.site
+    this.target = options.convexUrl.replace(".convex.cloud", ".convex.site");
+    this.apiKey = options.apiKey;
+    this.gzip = options.gzip ?? false;
+  }
+
+  /**
+   * Make authenticated POST request to OpenSync API
+   */
+  async send(endpoint: string, payload: unknown): Promise<TransportResult> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${this.apiKey}`,
+    };
+    let body: BodyInit = JSON.stringify(payload);
+    if (this.gzip) {
+      body = new Uint8Array(gzipSync(body));
+      headers["Content-Encoding"] = "gzip";
+    }
+
+    try {
+      const response = await fetch(`${this.target}${endpoint}`, { method: "POST", headers, body });
+
+      if (!response.ok) {
+        const text = await response.text();
+        return {
+          success: false,
+          error: `${response.status}: ${text}`,
+          status: response.status,
+          retryable: isRetryableStatus(response.status),
+          retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")),
+        };
+      }
+
+      return { success: true, response: await readJson(response) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, error: message, retryable: true };
+    }
+  }
+
+  /**
+   * Test API connectivity via health endpoint
+   */
+  async check(): Promise<SyncResult> {
+    try {
+      const response = await fetch(`${this.target}/health`);
+      if (response.ok) return { success: true };
+      return { success: false, error: `Health check failed: ${response.status}` };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, error: message };
+    }
+  }
+}
+
+/**
+ * Writes payloads to local JSONL files instead of sending them, one file
+ * per session named after its ID.
+ *
+ * Each line is the exact session or message payload the HTTP API would
+ * have received. Batches are written as their individual payloads, so
+ * every line is either a session (it has `source`) or a message (it has
+ * `sessionExternalId`). Sessions are written again on every update; the
+ * last line for a session holds its final totals.
+ */
+export class FileTransport implements Transport {
+  readonly target: string;
+
+  constructor(dir: string) {
+    this.target = dir;
+  }
+
+  async send(endpoint: string, payload: unknown): Promise<TransportResult> {
+    try {
+      const data = payload as {
+        externalId?: string;
+        sessionExternalId?: string;
+        sessions?: { externalId: string }[];
+        messages?: { sessionExternalId: string }[];
+      };
+
+      if (endpoint === "/sync/session") {
+        this.write(data.externalId, [payload]);
+      } else if (endpoint === "/sync/message") {
+        this.write(data.sessionExternalId, [payload]);
+      } else if (endpoint === "/sync/batch") {
+        for (const session of data.sessions ?? []) this.write(session.externalId, [session]);
+        // Map.groupBy would do, but it's missing from Node 20
+        const bySession = new Map<string, unknown[]>();
+        for (const message of data.messages ?? []) {
+          const messages = bySession.get(message.sessionExternalId) ?? [];
+          messages.push(message);
+          bySession.set(message.sessionExternalId, messages);
+        }
+        for (const [sessionId, messages] of bySession) this.write(sessionId, messages);
+      } else {
+        return { success: false, error: `Unsupported endpoint for file export: ${endpoint}` };
+      }
+      return { success: true };
+    } catch (error) {
+      // Disk errors aren't fixed by retrying moments later
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, error: message };
+    }
+  }
+
+  /**
+   * Check the export directory exists, or can be created, and is writable
+   */
+  async check(): Promise<SyncResult> {
+    try {
+      mkdirSync(this.target, { recursive: true });
+      accessSync(this.target, constants.W_OK);
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, error: message };
+    }
+  }
+
+  private write(sessionId: string | undefined, payloads: unknown[]): void {
+    if (!sessionId) throw new Error("Payload has no session ID");
+    mkdirSync(this.target, { recursive: true });
+    const file = join(this.target, `${sessionId.replace(/[^A-Za-z0-9_-]/g, "_")}.jsonl`);
+    appendFileSync(file, payloads.map((p) => JSON.stringify(p) + "\n").join(""));
+  }
+}
+
+/**
+ * Parsed body of a successful response, for debug logs. The server already
+ * accepted the request, so an empty or unreadable body is no reason to send
+ * it again.
+ */
+async function readJson(response: Response): Promise<unknown> {
+  try {
+    return await response.json();
+  } catch {
+    return undefined;
+  }
+}
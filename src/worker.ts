@@ -0,0 +1,212 @@
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import type { MessageData, SessionData, SyncResult, SyncTarget } from "./client";
+
+/** How long shutdown waits for queued requests before saving them for later */
+export const FLUSH_TIMEOUT_MS = 5_000;
+
+type ResultHandler = (result: SyncResult) => void;
+
+interface SessionJob {
+  kind: "session";
+  target: SyncTarget;
+  data: SessionData;
+  ctx: Pick<ExtensionContext, "sessionManager">;
+  isFinal: boolean;
+  handlers: ResultHandler[];
+}
+
+interface MessagesJob {
+  kind: "messages";
+  target: SyncTarget;
+  messages: MessageData[];
+  handlers: ResultHandler[];
+}
+
+interface OutboxJob {
+  kind: "outbox";
+  target: SyncTarget;
+  handlers: ResultHandler[];
+}
+
+type SyncJob = SessionJob | MessagesJob | OutboxJob;
+
+/**
+ * Sends sync requests in the background so pi's event handlers never wait
+ * on the network.
+ *
+ * Each session has its own queue, processed one request at a time in the
+ * order requests were made, so a slow request can't let a later one
+ * overtake it. Session updates only carry totals, so an update still
+ * waiting behind another request is replaced by a newer one instead of
+ * being sent twice. Results are reported through optional callbacks.
+ */
+export class SyncWorker {
+  private queues = new Map<string, SyncJob[]>();
+  private drains = new Map<string, Promise<void>>();
+
+  /**
+   * Queue a session metadata update. The data is copied, so later changes
+   * to the caller's state don't leak into this update.
+   */
+  syncSession(
+    target: SyncTarget,
+    data: SessionData,
+    ctx: Pick<ExtensionContext, "sessionManager">,
+    options: { isFinal?: boolean; onResult?: ResultHandler } = {}
+  ): void {
+    const queue = this.queueFor(data.sessionId);
+    const job: SessionJob = {
+      kind: "session",
+      target,
+      data: {
+        ...data,
+        costBreakdown: data.costBreakdown && { ...data.costBreakdown },
+        git: data.git && { ...data.git },
+        tags: data.tags && [...data.tags],
+        models: data.models?.map((usage) => ({ ...usage, costBreakdown: { ...usage.costBreakdown } })),
+      },
+      ctx,
+      isFinal: options.isFinal ?? false,
+      handlers: options.onResult ? [options.onResult] : [],
+    };
+
+    const last = queue.at(-1);
+    if (last?.kind === "session" && last.target === target) {
+      job.isFinal ||= last.isFinal;
+      job.handlers.unshift(...last.handlers);
+      queue[queue.length - 1] = job;
+    } else {
+      queue.push(job);
+    }
+    this.drain(data.sessionId);
+  }
+
+  /**
+   * Queue a single message
+   */
+  syncMessage(target: SyncTarget, message: MessageData, onResult?: ResultHandler): void {
+    this.syncBatch(target, [message], onResult);
+  }
+
+  /**
+   * Queue messages to be sent together. All messages must belong to the
+   * same session.
+   */
+  syncBatch(target: SyncTarget, messages: MessageData[], onResult?: ResultHandler): void {
+    if (messages.length === 0) return;
+    const sessionId = messages[0].sessionId;
+    this.queueFor(sessionId).push({
+      kind: "messages",
+      target,
+      messages,
+      handlers: onResult ? [onResult] : [],
+    });
+    this.drain(sessionId);
+  }
+
+  /**
+   * Queue a replay of the target's offline outbox ahead of the session's
+   * next requests
+   */
+  flushOutbox(target: SyncTarget, sessionId: string): void {
+    this.queueFor(sessionId).push({ kind: "outbox", target, handlers: [] });
+    this.drain(sessionId);
+  }
+
+  /**
+   * Requests queued or in flight across all sessions
+   */
+  size(): number {
+    let size = this.drains.size;
+    for (const queue of this.queues.values()) size += queue.length;
+    return size;
+  }
+
+  /**
+   * Wait for every queue to empty, giving up after `timeoutMs`. Returns
+   * whether everything was sent in time. Requests still running carry on
+   * in the background; those still waiting are stored in their target's
+   * outbox unsent, to be replayed by a later session.
+   */
+  async flush(timeoutMs = FLUSH_TIMEOUT_MS): Promise<boolean> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<false>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+    const drained = (async () => {
+      // Handlers may queue follow-up requests, so wait until nothing is left
+      while (this.drains.size > 0) await Promise.all(this.drains.values());
+      return true as const;
+    })();
+
+    try {
+      const done = await Promise.race([drained, timeout]);
+      if (!done) this.defer();
+      return done;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Take every job that hasn't started yet off its queue and store it for
+   * replay instead. Outbox replays are dropped, as their entries stay queued.
+   */
+  private defer(): void {
+    for (const queue of this.queues.values()) {
+      for (const job of queue.splice(0)) {
+        if (job.kind === "outbox") continue;
+        try {
+          const result =
+            job.kind === "session"
+              ? job.target.deferSession(job.data, job.ctx, job.isFinal)
+              : job.target.deferBatch(job.messages);
+          for (const handler of job.handlers) handler(result);
+        } catch { } // Same as run(): one failing job mustn't stop the rest being saved
+      }
+    }
+  }
+
+  private queueFor(sessionId: string): SyncJob[] {
+    let queue = this.queues.get(sessionId);
+    if (!queue) {
+      queue = [];
+      this.queues.set(sessionId, queue);
+    }
+    return queue;
+  }
+
+  /**
+   * Start processing a session's queue unless it's already being processed
+   */
+  private drain(sessionId: string): void {
+    if (this.drains.has(sessionId)) return;
+
+    const run = async () => {
+      const queue = this.queueFor(sessionId);
+      // Let the caller finish queueing related requests first, so
+      // back-to-back session updates can be coalesced
+      await Promise.resolve();
+      while (queue.length > 0) {
+        await this.run(queue.shift()!);
+      }
+      this.queues.delete(sessionId);
+      this.drains.delete(sessionId);
+    };
+    this.drains.set(sessionId, run());
+  }
+
+  private async run(job: SyncJob): Promise<void> {
+    try {
+      const result =
+        job.kind === "session"
+          ? await job.target.syncSession(job.data, job.ctx, job.isFinal)
+          : job.kind === "outbox"
+            ? await job.target.flushOutbox()
+            : job.messages.length === 1
+              ? await job.target.syncMessage(job.messages[0])
+              : await job.target.syncBatch(job.messages);
+      for (const handler of job.handlers) handler(result);
+    } catch { } // Targets report failures as results; never let one job stall the queue
+  }
+}
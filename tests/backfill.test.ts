@@ -0,0 +1,254 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SessionManager } from "@mariozechner/pi-coding-agent";
+import type { AssistantMessage } from "@mariozechner/pi-ai";
+import { formatBackfillSummary, parseBackfillArgs, runBackfill } from "../src/backfill";
+import { SyncClient } from "../src/client";
+import { SessionLedger } from "../src/ledger";
+import { SYNC_MODE_ENTRY } from "../src/session";
+import { TAGS_ENTRY } from "../src/tags";
+import { testConfig } from "./helpers";
+
+const assistantMessage = (text: string): AssistantMessage => ({
+  role: "assistant",
+  content: [{ type: "text", text }],
+  api: "anthropic-messages",
+  provider: "anthropic",
+  model: "claude-sonnet-4-5",
+  usage: {
+    input: 100,
+    output: 50,
+    cacheRead: 0,
+    cacheWrite: 0,
+    totalTokens: 150,
+    cost: { input: 0.001, output: 0.002, cacheRead: 0, cacheWrite: 0, total: 0.003 },
+  },
+  stopReason: "stop",
+  timestamp: Date.now(),
+});
+
+/**
+ * Write a session file with the given number of user/assistant exchanges
+ */
+function createSession(cwd: string, sessionDir: string, exchanges: number): string {
+  const sm = SessionManager.create(cwd, sessionDir);
+  for (let i = 0; i < exchanges; i++) {
+    sm.appendMessage({ role: "user", content: `Question ${i}`, timestamp: Date.now() });
+    sm.appendMessage(assistantMessage(`Answer ${i}`));
+  }
+  return sm.getSessionId();
+}
+
+describe("parseBackfillArgs", () => {
+  it("parses flags", () => {
+    expect(parseBackfillArgs("--all --dry-run")).toEqual({ all: true, dryRun: true, unknown: [] });
+    expect(parseBackfillArgs("-n")).toEqual({ all: false, dryRun: true, unknown: [] });
+    expect(parseBackfillArgs("")).toEqual({ all: false, dryRun: false, unknown: [] });
+  });
+
+  it("collects unknown tokens", () => {
+    expect(parseBackfillArgs("--al").unknown).toEqual(["--al"]);
+  });
+});
+
+describe("runBackfill", () => {
+  const config = testConfig();
+
+  let dir: string;
+  let sessionDir: string;
+  let ledger: SessionLedger;
+  let requests: { endpoint: string; body: any }[];
+  let originalFetch: typeof fetch;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "opensync-backfill-"));
+    sessionDir = join(dir, "sessions");
+    ledger = new SessionLedger(join(dir, "synced-sessions.json"));
+    requests = [];
+    originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (url: RequestInfo | URL, options?: RequestInit) => {
+      requests.push({
+        endpoint: new URL(String(url)).pathname,
+        body: JSON.parse(options?.body as string),
+      });
+      return new Response(JSON.stringify({ ok: true }), { status: 200 });
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("uploads sessions with their messages and records them in the ledger", async () => {
+    const sessionId = createSession("/home/user/project", sessionDir, 2);
+
+    const summary = await runBackfill(async () => new SyncClient(config), ledger, "/home/user/project", {
+      all: false,
+      dryRun: false,
+      sessionDir,
+    });
+
+    expect(summary.uploaded).toBe(1);
+    expect(summary.messages).toBe(4);
+    expect(requests.map((r) => r.endpoint)).toEqual(["/sync/session", "/sync/batch", "/sync/session"]);
+    expect(requests[0].body.externalId).toBe(sessionId);
+    expect(requests[0].body.projectName).toBe("project");
+    expect(requests[0].body.model).toBe("claude-sonnet-4-5");
+    expect(requests[0].body.durationMs).toBeGreaterThanOrEqual(0);
+    expect(requests[1].body.messages).toHaveLength(4);
+    expect(ledger.has(sessionId)).toBe(true);
+  });
+
+  it("names the model the way live sessions do", async () => {
+    createSession("/project", sessionDir, 1);
+
+    await runBackfill(async () => new SyncClient(config), ledger, "/project", {
+      all: false,
+      dryRun: false,
+      sessionDir,
+      modelName: (_provider, modelId) => (modelId === "claude-sonnet-4-5" ? "Claude Sonnet 4.5" : modelId),
+    });
+
+    expect(requests[0].body.model).toBe("Claude Sonnet 4.5");
+    expect(requests[0].body.provider).toBe("anthropic");
+  });
+
+  it("skips sessions already in the ledger and the current session", async () => {
+    const uploaded = createSession("/project", sessionDir, 1);
+    const current = createSession("/project", sessionDir, 1);
+    ledger.add(uploaded);
+
+    const summary = await runBackfill(async () => new SyncClient(config), ledger, "/project", {
+      all: false,
+      dryRun: false,
+      currentSessionId: current,
+      sessionDir,
+    });
+
+    expect(summary.scanned).toBe(2);
+    expect(summary.skipped).toBe(2);
+    expect(summary.uploaded).toBe(0);
+    expect(requests).toHaveLength(0);
+  });
+
+  it("does not send anything in dry-run mode", async () => {
+    const sessionId = createSession("/project", sessionDir, 3);
+
+    const summary = await runBackfill(async () => new SyncClient(config), ledger, "/project", {
+      all: false,
+      dryRun: true,
+      sessionDir,
+    });
+
+    expect(summary.uploaded).toBe(1);
+    expect(summary.messages).toBe(6);
+    expect(requests).toHaveLength(0);
+    expect(ledger.has(sessionId)).toBe(false);
+    expect(formatBackfillSummary(summary, true)).toContain("would upload 1 session(s)");
+  });
+
+  it("splits large sessions into chunked batch requests", async () => {
+    createSession("/project", sessionDir, 30);
+
+    await runBackfill(async () => new SyncClient(config), ledger, "/project", {
+      all: false,
+      dryRun: false,
+      sessionDir,
+    });
+
+    const batches = requests.filter((r) => r.endpoint === "/sync/batch");
+    expect(batches.map((b) => b.body.messages.length)).toEqual([50, 10]);
+  });
+
+  it("skips sessions whose project is excluded", async () => {
+    const sessionId = createSession("/project", sessionDir, 1);
+
+    const summary = await runBackfill(async () => null, ledger, "/project", {
+      all: false,
+      dryRun: false,
+      sessionDir,
+    });
+
+    expect(summary.skipped).toBe(1);
+    expect(summary.uploaded).toBe(0);
+    expect(requests).toHaveLength(0);
+    expect(ledger.has(sessionId)).toBe(false);
+  });
+
+  it("leaves out messages sent while the session was paused", async () => {
+    const sm = SessionManager.create("/project", sessionDir);
+    sm.appendMessage({ role: "user", content: "Public question", timestamp: Date.now() });
+    sm.appendMessage(assistantMessage("Public answer"));
+    sm.appendCustomEntry(SYNC_MODE_ENTRY, { paused: true, private: false });
+    sm.appendMessage({ role: "user", content: "Here is my password", timestamp: Date.now() });
+    sm.appendMessage(assistantMessage("Noted"));
+    sm.appendCustomEntry(SYNC_MODE_ENTRY, { paused: false, private: false });
+    sm.appendMessage({ role: "user", content: "Back to work", timestamp: Date.now() });
+
+    await runBackfill(async () => new SyncClient(config), ledger, "/project", {
+      all: false,
+      dryRun: false,
+      sessionDir,
+    });
+
+    const batch = requests.find((r) => r.endpoint === "/sync/batch")!;
+    expect(batch.body.messages.map((m: any) => m.textContent)).toEqual([
+      "Public question",
+      "Public answer",
+      "Back to work",
+    ]);
+    expect(requests[0].body.messageCount).toBe(5);
+  });
+
+  it("sends the session's own tags and those from tag rules", async () => {
+    const sm = SessionManager.create("/project", sessionDir);
+    sm.appendMessage({ role: "user", content: "Fix the bug", timestamp: Date.now() });
+    sm.appendMessage(assistantMessage("Fixed"));
+    sm.appendCustomEntry(TAGS_ENTRY, { tags: ["bugfix"] });
+
+    await runBackfill(async () => new SyncClient(config), ledger, "/project", {
+      all: false,
+      dryRun: false,
+      sessionDir,
+      autoTags: async (projectPath, models) => [`${projectPath}:${models.join(",")}`],
+    });
+
+    expect(requests[0].body.tags).toEqual(["bugfix", "/project:claude-sonnet-4-5"]);
+  });
+
+  it("uploads only session metadata in private mode", async () => {
+    const sessionId = createSession("/project", sessionDir, 2);
+
+    const summary = await runBackfill(async () => new SyncClient(config), ledger, "/project", {
+      all: false,
+      dryRun: false,
+      sessionDir,
+      privateMode: true,
+    });
+
+    expect(summary.uploaded).toBe(1);
+    expect(summary.messages).toBe(0);
+    expect(requests.map((r) => r.endpoint)).toEqual(["/sync/session", "/sync/session"]);
+    expect(requests[0].body.promptTokens).toBe(200);
+    expect(ledger.has(sessionId)).toBe(true);
+  });
+
+  it("reports failures without recording them in the ledger", async () => {
+    const sessionId = createSession("/project", sessionDir, 1);
+    globalThis.fetch = (async () =>
+      new Response("Unauthorized", { status: 401 })) as unknown as typeof fetch;
+
+    const summary = await runBackfill(async () => new SyncClient(config), ledger, "/project", {
+      all: false,
+      dryRun: false,
+      sessionDir,
+    });
+
+    expect(summary.failed).toBe(1);
+    expect(summary.errors[0]).toContain("401");
+    expect(ledger.has(sessionId)).toBe(false);
+  });
+});
@@ -0,0 +1,238 @@
+import { describe, it, expect } from "bun:test";
+import { SessionManager } from "@mariozechner/pi-coding-agent";
+import type { AssistantMessage } from "@mariozechner/pi-ai";
+import { messageIdFor, processBranch } from "../src/branch";
+import type { AssistantMessageData, SystemMessageData, UserMessageData } from "../src/client";
+
+const assistantMessage = (content: AssistantMessage["content"]): AssistantMessage => ({
+  role: "assistant",
+  content,
+  api: "anthropic-messages",
+  provider: "anthropic",
+  model: "claude-sonnet-4-5",
+  usage: {
+    input: 100,
+    output: 50,
+    cacheRead: 0,
+    cacheWrite: 0,
+    totalTokens: 150,
+    cost: { input: 0.001, output: 0.002, cacheRead: 0, cacheWrite: 0, total: 0.003 },
+  },
+  stopReason: "stop",
+  timestamp: Date.now(),
+});
+
+describe("processBranch", () => {
+  it("derives message IDs from session entry IDs", () => {
+    const sm = SessionManager.inMemory("/project");
+    const userEntryId = sm.appendMessage({ role: "user", content: "Hello", timestamp: Date.now() });
+    const assistantEntryId = sm.appendMessage(assistantMessage([{ type: "text", text: "Hi" }]));
+
+    const { messages } = processBranch(sm);
+
+    expect(messages.map((m) => m.messageId)).toEqual([
+      messageIdFor(sm.getSessionId(), userEntryId),
+      messageIdFor(sm.getSessionId(), assistantEntryId),
+    ]);
+  });
+
+  it("keeps IDs stable as the branch grows", () => {
+    const sm = SessionManager.inMemory("/project");
+    sm.appendMessage({ role: "user", content: "First", timestamp: Date.now() });
+    sm.appendMessage(assistantMessage([{ type: "text", text: "One" }]));
+    const before = processBranch(sm).messages.map((m) => m.messageId);
+
+    sm.appendMessage({ role: "user", content: "Second", timestamp: Date.now() });
+    const after = processBranch(sm).messages.map((m) => m.messageId);
+
+    expect(after.slice(0, 2)).toEqual(before);
+    expect(new Set(after).size).toBe(3);
+  });
+
+  it("attaches tool results to the assistant message that called the tool", () => {
+    const sm = SessionManager.inMemory("/project");
+    sm.appendMessage({ role: "user", content: "List files", timestamp: Date.now() });
+    sm.appendMessage(
+      assistantMessage([{ type: "toolCall", id: "call_1", name: "bash", arguments: { command: "ls" } }])
+    );
+    sm.appendMessage({
+      role: "toolResult",
+      toolCallId: "call_1",
+      toolName: "bash",
+      content: [{ type: "text", text: "README.md" }],
+      isError: false,
+      timestamp: Date.now(),
+    });
+
+    const { messages, stats } = processBranch(sm);
+    const assistant = messages[1] as AssistantMessageData;
+
+    expect(messages).toHaveLength(2);
+    expect(stats.messageCount).toBe(2);
+    expect(stats.toolCallCount).toBe(1);
+    expect(assistant.toolResults).toEqual([
+      { toolCallId: "call_1", toolName: "bash", isError: false, content: [{ type: "text", text: "README.md" }] },
+    ]);
+  });
+
+  it("applies per-tool sync rules", () => {
+    const sm = SessionManager.inMemory("/project");
+    sm.appendMessage({ role: "user", content: "Check the config", timestamp: Date.now() });
+    sm.appendMessage(
+      assistantMessage([
+        { type: "toolCall", id: "call_1", name: "read", arguments: { path: ".env" } },
+        { type: "toolCall", id: "call_2", name: "vault", arguments: { key: "db" } },
+        { type: "toolCall", id: "call_3", name: "bash", arguments: { command: "ls" } },
+      ])
+    );
+    for (const [toolCallId, toolName, text] of [
+      ["call_1", "read", "SECRET=1"],
+      ["call_2", "vault", "hunter2"],
+      ["call_3", "bash", "README.md"],
+    ]) {
+      sm.appendMessage({
+        role: "toolResult",
+        toolCallId,
+        toolName,
+        content: [{ type: "text", text }],
+        isError: false,
+        timestamp: Date.now(),
+      });
+    }
+
+    const { messages, stats } = processBranch(sm, { toolRules: { read: "call", vault: "none" } });
+    const assistant = messages[1] as AssistantMessageData;
+
+    expect(stats.toolCallCount).toBe(3);
+    expect(assistant.content.map((p) => p.type === "toolCall" && p.name)).toEqual(["read", "bash"]);
+    expect(assistant.toolResults).toEqual([
+      { toolCallId: "call_1", toolName: "read", isError: false, content: [] },
+      { toolCallId: "call_3", toolName: "bash", isError: false, content: [{ type: "text", text: "README.md" }] },
+    ]);
+  });
+
+  it("breaks usage down by model and marks model switches", () => {
+    const sm = SessionManager.inMemory("/project");
+    sm.appendModelChange("anthropic", "claude-haiku-4-5");
+    sm.appendMessage({ role: "user", content: "Quick question", timestamp: Date.now() });
+    sm.appendMessage({ ...assistantMessage([{ type: "text", text: "Quick answer" }]), model: "claude-haiku-4-5" });
+    sm.appendModelChange("anthropic", "claude-haiku-4-5");
+    const switchId = sm.appendModelChange("amazon-bedrock", "claude-opus-4-1");
+    sm.appendMessage({ role: "user", content: "Hard question", timestamp: Date.now() });
+    sm.appendMessage({
+      ...assistantMessage([{ type: "text", text: "Careful answer" }]),
+      provider: "amazon-bedrock",
+      model: "claude-opus-4-1",
+    });
+
+    const names: Record<string, string> = { "claude-haiku-4-5": "Claude Haiku 4.5" };
+    const { messages, stats } = processBranch(sm, {
+      modelName: (_provider, modelId) => names[modelId] ?? modelId,
+    });
+
+    expect(stats.models).toEqual([
+      {
+        model: "Claude Haiku 4.5",
+        provider: "anthropic",
+        promptTokens: 100,
+        completionTokens: 50,
+        cacheReadTokens: 0,
+        cacheWriteTokens: 0,
+        cost: 0.003,
+        costBreakdown: { input: 0.001, output: 0.002, cacheRead: 0, cacheWrite: 0 },
+        messageCount: 1,
+      },
+      {
+        model: "claude-opus-4-1",
+        provider: "amazon bedrock",
+        promptTokens: 100,
+        completionTokens: 50,
+        cacheReadTokens: 0,
+        cacheWriteTokens: 0,
+        cost: 0.003,
+        costBreakdown: { input: 0.001, output: 0.002, cacheRead: 0, cacheWrite: 0 },
+        messageCount: 1,
+      },
+    ]);
+
+    const markers = messages.filter((m) => m.role === "system") as SystemMessageData[];
+    expect(markers).toHaveLength(1);
+    expect(markers[0].messageId).toBe(messageIdFor(sm.getSessionId(), switchId));
+    expect(markers[0].text).toBe("[Model] Switched to claude-opus-4-1 (amazon bedrock)");
+  });
+
+  it("includes cached prompt tokens in usage totals", () => {
+    const sm = SessionManager.inMemory("/project");
+    const cached = assistantMessage([{ type: "text", text: "Hi" }]);
+    cached.usage = {
+      input: 10,
+      output: 50,
+      cacheRead: 4000,
+      cacheWrite: 500,
+      totalTokens: 4560,
+      cost: { input: 0.001, output: 0.002, cacheRead: 0.003, cacheWrite: 0.004, total: 0.01 },
+    };
+    sm.appendMessage(cached);
+    sm.appendMessage(assistantMessage([{ type: "text", text: "Again" }]));
+
+    const { stats } = processBranch(sm);
+
+    expect(stats.promptTokens).toBe(4610);
+    expect(stats.completionTokens).toBe(100);
+    expect(stats.cacheReadTokens).toBe(4000);
+    expect(stats.cacheWriteTokens).toBe(500);
+    expect(stats.cost).toBeCloseTo(0.013);
+    expect(stats.costBreakdown.cacheWrite).toBeCloseTo(0.004);
+    expect(stats.costBreakdown.input).toBeCloseTo(0.002);
+  });
+
+  it("keeps images attached to user messages", () => {
+    const sm = SessionManager.inMemory("/project");
+    const image = { type: "image" as const, data: "aGVsbG8=", mimeType: "image/png" };
+    sm.appendMessage({
+      role: "user",
+      content: [{ type: "text", text: "See screenshot" }, image],
+      timestamp: Date.now(),
+    });
+
+    const [message] = processBranch(sm).messages as UserMessageData[];
+
+    expect(message.text).toBe("See screenshot");
+    expect(message.images).toEqual([image]);
+  });
+
+  it("turns branch summaries into markers and drops the abandoned branch", () => {
+    const sm = SessionManager.inMemory("/project");
+    const firstId = sm.appendMessage({ role: "user", content: "Try approach A", timestamp: Date.now() });
+    sm.appendMessage(assistantMessage([{ type: "text", text: "A is done" }]));
+    const summaryId = sm.branchWithSummary(firstId, "Approach A failed because of X");
+    sm.appendMessage({ role: "user", content: "Try approach B", timestamp: Date.now() });
+
+    const { messages, stats } = processBranch(sm);
+
+    expect(messages.map((m) => m.role)).toEqual(["user", "system", "user"]);
+    expect(messages[1].messageId).toBe(messageIdFor(sm.getSessionId(), summaryId));
+    expect((messages[1] as SystemMessageData).text).toContain("Approach A failed because of X");
+    expect(stats.messageCount).toBe(2);
+  });
+
+  it("turns compactions into markers with the summary and token counts", () => {
+    const sm = SessionManager.inMemory("/project");
+    sm.appendMessage({ role: "user", content: "Old question", timestamp: Date.now() });
+    sm.appendMessage(assistantMessage([{ type: "text", text: "Old answer" }]));
+    const keptId = sm.appendMessage({ role: "user", content: "Recent question", timestamp: Date.now() });
+    sm.appendMessage(assistantMessage([{ type: "text", text: "Recent answer" }]));
+    const compactionId = sm.appendCompaction("Discussed old things", keptId, 42_000);
+    sm.appendMessage({ role: "user", content: "Next", timestamp: Date.now() });
+
+    const { messages, stats } = processBranch(sm);
+    const marker = messages[4] as SystemMessageData;
+
+    expect(messages.map((m) => m.role)).toEqual(["user", "assistant", "user", "assistant", "system", "user"]);
+    expect(marker.messageId).toBe(messageIdFor(sm.getSessionId(), compactionId));
+    expect(marker.text).toContain("compacted from 42,000 to ~");
+    expect(marker.text).toContain('keeps messages from "Recent question" onward');
+    expect(marker.text).toContain("Discussed old things");
+    expect(stats.messageCount).toBe(5);
+  });
+});
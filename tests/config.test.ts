@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
-import { loadConfig } from "../src/config";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadConfig, resolveConfig } from "../src/config";
 
 describe("loadConfig with environment variables", () => {
   const originalEnv = { ...process.env };
@@ -12,6 +15,10 @@ describe("loadConfig with environment variables", () => {
     delete process.env.PI_OPENSYNC_TOOL_CALLS;
     delete process.env.PI_OPENSYNC_THINKING;
     delete process.env.PI_OPENSYNC_DEBUG;
+    delete process.env.PI_OPENSYNC_MAX_RETRIES;
+    delete process.env.PI_OPENSYNC_RETRY_BASE_DELAY_MS;
+    delete process.env.PI_OPENSYNC_RETRY_MAX_DELAY_MS;
+    delete process.env.PI_OPENSYNC_REDACT_SECRETS;
   });
   
   afterEach(() => {
@@ -37,8 +44,22 @@ describe("loadConfig with environment variables", () => {
     expect(config!.debug).toBe(true);
     expect(config!.autoSync).toBe(true); // default when not "false"
     expect(config!.syncToolCalls).toBe(true);
+    expect(config!.redactSecrets).toBe(true);
   });
   
+  it("loads retry policy from environment variables", () => {
+    process.env.PI_OPENSYNC_CONVEX_URL = "https://test.convex.cloud";
+    process.env.PI_OPENSYNC_API_KEY = "osk_test123";
+    process.env.PI_OPENSYNC_MAX_RETRIES = "5";
+    process.env.PI_OPENSYNC_RETRY_BASE_DELAY_MS = "not-a-number";
+
+    const config = loadConfig();
+
+    expect(config!.maxRetries).toBe(5);
+    expect(config!.retryBaseDelayMs).toBe(500); // default on invalid input
+    expect(config!.retryMaxDelayMs).toBe(5000);
+  });
+
   it("returns null when no env vars and no config file", () => {
     // Ensure no env vars set
     delete process.env.PI_OPENSYNC_CONVEX_URL;
@@ -53,3 +74,139 @@ describe("loadConfig with environment variables", () => {
     expect(config === null || typeof config === "object").toBe(true);
   });
 });
+
+describe("resolveConfig layering", () => {
+  let dir: string;
+  let globalFile: string;
+  let projectDir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "opensync-config-"));
+    globalFile = join(dir, "config.json");
+    projectDir = join(dir, "project");
+    mkdirSync(join(projectDir, ".pi"), { recursive: true });
+    for (const key of Object.keys(process.env)) {
+      if (key.startsWith("PI_OPENSYNC_")) delete process.env[key];
+    }
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    for (const key of Object.keys(process.env)) {
+      if (key.startsWith("PI_OPENSYNC_")) delete process.env[key];
+    }
+  });
+
+  function writeGlobal(data: object) {
+    writeFileSync(globalFile, JSON.stringify(data));
+  }
+
+  function writeProject(data: object) {
+    writeFileSync(join(projectDir, ".pi", "opensync.json"), JSON.stringify(data));
+  }
+
+  it("overrides individual global fields from the project file", () => {
+    writeGlobal({ convexUrl: "https://global.convex.cloud", apiKey: "osk_global", syncThinking: true });
+    writeProject({ syncThinking: false, autoSync: false });
+
+    const { config, sources } = resolveConfig(projectDir, globalFile);
+
+    expect(config.convexUrl).toBe("https://global.convex.cloud");
+    expect(config.syncThinking).toBe(false);
+    expect(config.autoSync).toBe(false);
+    expect(sources.convexUrl).toBe("global");
+    expect(sources.syncThinking).toBe("project");
+    expect(sources.debug).toBe("default");
+  });
+
+  it("lets a single env var override file settings", () => {
+    writeGlobal({ convexUrl: "https://global.convex.cloud", apiKey: "osk_global" });
+    process.env.PI_OPENSYNC_API_KEY = "osk_env";
+
+    const { config, sources } = resolveConfig(projectDir, globalFile);
+
+    expect(config.convexUrl).toBe("https://global.convex.cloud");
+    expect(config.apiKey).toBe("osk_env");
+    expect(sources.apiKey).toBe("env");
+  });
+
+  it("ignores fields with the wrong type", () => {
+    writeGlobal({ convexUrl: "https://global.convex.cloud", apiKey: "osk_global" });
+    writeProject({ maxRetries: "lots", syncToolCalls: "no" });
+
+    const { config, sources } = resolveConfig(projectDir, globalFile);
+
+    expect(config.maxRetries).toBe(3);
+    expect(config.syncToolCalls).toBe(true);
+    expect(sources.maxRetries).toBe("default");
+  });
+
+  it("returns null from loadConfig when the URL or key is missing from every layer", () => {
+    writeGlobal({ convexUrl: "https://global.convex.cloud" });
+
+    expect(loadConfig(projectDir, globalFile)).toBeNull();
+
+    process.env.PI_OPENSYNC_API_KEY = "osk_env";
+    expect(loadConfig(projectDir, globalFile)?.convexUrl).toBe("https://global.convex.cloud");
+  });
+
+  it("never lets a project file change destinations, credentials or loosen redaction", () => {
+    writeGlobal({ convexUrl: "https://global.convex.cloud", apiKey: "osk_global" });
+    writeProject({
+      convexUrl: "https://evil.example.com",
+      apiKey: "osk_project",
+      redactSecrets: false,
+      profiles: { leak: { convexUrl: "https://evil.example.com" } },
+      routes: [{ profiles: ["leak"] }],
+      privateMode: true,
+    });
+
+    const { config, sources } = resolveConfig(projectDir, globalFile);
+
+    expect(config.convexUrl).toBe("https://global.convex.cloud");
+    expect(config.apiKey).toBe("osk_global");
+    expect(config.redactSecrets).toBe(true);
+    expect(config.profiles).toEqual({});
+    expect(config.routes).toEqual([]);
+    expect(config.privateMode).toBe(true);
+    expect(sources.convexUrl).toBe("global");
+  });
+
+  it("never lets a project file sync more than the global config allows", () => {
+    writeGlobal({
+      convexUrl: "https://global.convex.cloud",
+      apiKey: "osk_global",
+      privateMode: true,
+      autoSync: false,
+      syncThinking: false,
+      toolRules: { read: "none", bash: "call" },
+    });
+    writeProject({
+      privateMode: false,
+      autoSync: true,
+      syncThinking: true,
+      toolRules: { bash: "all", edit: "call" },
+    });
+
+    const { config, sources } = resolveConfig(projectDir, globalFile);
+
+    expect(config.privateMode).toBe(true);
+    expect(config.autoSync).toBe(false);
+    expect(config.syncThinking).toBe(false);
+    expect(config.toolRules).toEqual({ read: "none", bash: "call", edit: "call" });
+    expect(sources.privateMode).toBe("global");
+  });
+
+  it("lets a project file turn redaction on", () => {
+    writeGlobal({ convexUrl: "https://global.convex.cloud", apiKey: "osk_global", redactSecrets: false });
+    writeProject({ redactSecrets: true });
+
+    expect(resolveConfig(projectDir, globalFile).config.redactSecrets).toBe(true);
+  });
+
+  it("doesn't need a URL or key for the file transport", () => {
+    writeGlobal({ transport: "file", exportDir: "/tmp/opensync-export" });
+
+    expect(loadConfig(projectDir, globalFile)?.exportDir).toBe("/tmp/opensync-export");
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { formatDoctor, runDoctor, type DoctorCheck } from "../src/doctor";
+import { Outbox } from "../src/outbox";
+
+describe("runDoctor", () => {
+  let dir: string;
+  let globalFile: string;
+  let requests: { url: string; auth?: string }[];
+  let originalFetch: typeof fetch;
+  const originalEnv = { ...process.env };
+
+  const run = () =>
+    runDoctor(join(dir, "project"), {
+      globalFile,
+      outboxFile: (destination) => join(dir, `outbox-${destination}.jsonl`),
+    });
+  const find = (checks: DoctorCheck[], name: string) => checks.find((check) => check.name === name);
+  const writeGlobal = (config: unknown) => writeFileSync(globalFile, JSON.stringify(config, null, 2));
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "opensync-doctor-"));
+    mkdirSync(join(dir, "project", ".pi"), { recursive: true });
+    globalFile = join(dir, "config.json");
+    for (const key of Object.keys(process.env)) {
+      if (key.startsWith("PI_OPENSYNC_")) delete process.env[key];
+    }
+
+    requests = [];
+    originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (url: RequestInfo | URL, options?: RequestInit) => {
+      const auth = (options?.headers as Record<string, string> | undefined)?.Authorization;
+      requests.push({ url: String(url), auth });
+      if (auth && auth !== "Bearer osk_valid_key") return new Response("Invalid API key", { status: 401 });
+      return new Response(JSON.stringify({ ok: true }), { status: 200 });
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    Object.assign(process.env, originalEnv);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("passes a working setup", async () => {
+    writeGlobal({ convexUrl: "https://test.convex.cloud", apiKey: "osk_valid_key" });
+
+    const checks = await run();
+
+    expect(checks.filter((check) => !check.ok)).toEqual([]);
+    expect(find(checks, "Convex URL")?.detail).toContain("https://test.convex.site");
+    expect(find(checks, "API key")?.detail).toBe("osk_…_key");
+    expect(requests).toEqual([
+      { url: "https://test.convex.site/health", auth: undefined },
+      { url: "https://test.convex.site/sync/batch", auth: "Bearer osk_valid_key" },
+    ]);
+  });
+
+  it("points at the line and column of a config syntax error", async () => {
+    writeFileSync(globalFile, '{\n  "convexUrl": "https://test.convex.cloud",\n  apiKey: "osk_valid_key"\n}');
+
+    const check = find(await run(), "Global config")!;
+
+    expect(check.ok).toBe(false);
+    expect(check.detail).toContain("line 3, column 3");
+    expect(check.detail).toContain("expected a quoted property name");
+    expect(check.fix).toContain("line 3, column 3");
+  });
+
+  it("catches trailing commas in the project config", async () => {
+    writeGlobal({ convexUrl: "https://test.convex.cloud", apiKey: "osk_valid_key" });
+    writeFileSync(join(dir, "project", ".pi", "opensync.json"), '{ "debug": true, }');
+
+    const check = find(await run(), "Project config")!;
+
+    expect(check.ok).toBe(false);
+    expect(check.detail).toContain("line 1, column 18");
+  });
+
+  it("explains malformed URLs and keys without making requests", async () => {
+    writeGlobal({ convexUrl: "https://test.convex.cloud/", apiKey: "sk-ant-123" });
+
+    const checks = await run();
+
+    expect(find(checks, "Convex URL")).toMatchObject({
+      ok: false,
+      fix: "Set convexUrl with /opensync:config to just https://test.convex.cloud",
+    });
+    expect(find(checks, "API key")?.ok).toBe(false);
+    expect(find(checks, "API key")?.detail).toContain("osk_");
+    expect(requests).toEqual([]);
+  });
+
+  it("names the environment variable a setting came from", async () => {
+    process.env.PI_OPENSYNC_CONVEX_URL = "test.convex.cloud";
+    process.env.PI_OPENSYNC_API_KEY = "osk_valid_key";
+
+    const check = find(await run(), "Convex URL")!;
+
+    expect(check.ok).toBe(false);
+    expect(check.fix).toContain("PI_OPENSYNC_CONVEX_URL");
+  });
+
+  it("reports a rejected API key", async () => {
+    writeGlobal({ convexUrl: "https://test.convex.site", apiKey: "osk_revoked_key" });
+
+    const checks = await run();
+
+    expect(find(checks, "Health")?.ok).toBe(true);
+    expect(find(checks, "Authentication")).toMatchObject({ ok: false });
+    expect(find(checks, "Authentication")?.fix).toContain("rejected");
+  });
+
+  it("checks every profile and its outbox", async () => {
+    writeGlobal({
+      convexUrl: "https://test.convex.cloud",
+      apiKey: "osk_valid_key",
+      profiles: { work: { apiKey: "osk_revoked_key" } },
+    });
+    new Outbox(join(dir, "outbox-work.jsonl")).enqueue({ endpoint: "/sync/session", payload: {}, queuedAt: Date.now() });
+
+    const checks = await run();
+
+    expect(find(checks, "Authentication (default)")?.ok).toBe(true);
+    expect(find(checks, "Authentication (work)")?.fix).toContain("profiles.work.apiKey");
+    expect(find(checks, "Outbox (default)")?.ok).toBe(true);
+    expect(find(checks, "Outbox (work)")?.detail).toContain("1 request waiting");
+  });
+
+  it("flags a debug log directory that doesn't exist", async () => {
+    writeGlobal({ convexUrl: "https://test.convex.cloud", apiKey: "osk_valid_key", debug: true });
+    rmSync(join(dir, "project", ".pi"), { recursive: true });
+
+    const check = find(await run(), "Debug log")!;
+
+    expect(check.ok).toBe(false);
+    expect(check.fix).toContain("mkdir -p");
+  });
+
+  it("only mentions a missing debug log directory when debug is off", async () => {
+    writeGlobal({ convexUrl: "https://test.convex.cloud", apiKey: "osk_valid_key" });
+    rmSync(join(dir, "project", ".pi"), { recursive: true });
+
+    const check = find(await run(), "Debug log")!;
+
+    expect(check.ok).toBe(true);
+    expect(check.detail).toContain("doesn't exist");
+  });
+});
+
+describe("formatDoctor", () => {
+  it("lists each check with its fix and a summary", () => {
+    const text = formatDoctor([
+      { name: "Convex URL", ok: true, detail: "https://test.convex.site" },
+      { name: "API key", ok: false, detail: "Not set", fix: "Set apiKey with /opensync:config" },
+    ]);
+
+    expect(text).toContain("✓ Convex URL: https://test.convex.site");
+    expect(text).toContain("✗ API key: Not set\n  Fix: Set apiKey with /opensync:config");
+    expect(text).toContain("1 of 2 checks failed");
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getGitContext } from "../src/git";
+
+describe("getGitContext", () => {
+  let dir: string;
+  const git = (...args: string[]) =>
+    execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], {
+      cwd: dir,
+      encoding: "utf-8",
+    }).trim();
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "opensync-git-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns undefined outside a repository", async () => {
+    expect(await getGitContext(dir)).toBeUndefined();
+  });
+
+  it("collects branch, remote, HEAD and dirty state", async () => {
+    git("init", "-q", "-b", "main");
+    git("remote", "add", "origin", "git@github.com:acme/api.git");
+    writeFileSync(join(dir, "README.md"), "hello\n");
+    git("add", "README.md");
+    git("commit", "-q", "-m", "Initial commit");
+    const first = git("rev-parse", "HEAD");
+
+    const start = await getGitContext(dir);
+    expect(start).toEqual({
+      branch: "main",
+      remote: "github.com/acme/api",
+      startCommit: first,
+      endCommit: first,
+      dirty: false,
+    });
+
+    writeFileSync(join(dir, "README.md"), "changed\n");
+    git("commit", "-q", "-am", "Change");
+    writeFileSync(join(dir, "notes.txt"), "untracked\n");
+
+    const end = await getGitContext(dir, start);
+    expect(end?.startCommit).toBe(first);
+    expect(end?.endCommit).toBe(git("rev-parse", "HEAD"));
+    expect(end?.dirty).toBe(true);
+  });
+});
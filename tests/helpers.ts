@@ -0,0 +1,18 @@
+import { DEFAULT_CONFIG, type Config } from "../src/config";
+
+/**
+ * Config for tests: the defaults with a test destination and retries that
+ * fail fast, plus any overrides
+ */
+export function testConfig(overrides: Partial<Config> = {}): Config {
+  return {
+    ...DEFAULT_CONFIG,
+    convexUrl: "https://test.convex.site",
+    apiKey: "osk_test123",
+    exportDir: "",
+    maxRetries: 0,
+    retryBaseDelayMs: 1,
+    retryMaxDelayMs: 50,
+    ...overrides,
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describeImage, imagePlaceholder, ImageStore } from "../src/images";
+
+// 1x1 transparent PNG and GIF
+const PNG =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+const GIF = "R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7";
+
+describe("describeImage", () => {
+  it("reads PNG dimensions and size", () => {
+    expect(describeImage(PNG, "image/png")).toEqual({ mimeType: "image/png", bytes: 70, width: 1, height: 1 });
+  });
+
+  it("reads GIF dimensions", () => {
+    expect(describeImage(GIF, "image/gif")).toMatchObject({ width: 1, height: 1 });
+  });
+
+  it("omits dimensions for unknown formats", () => {
+    const info = describeImage(Buffer.from("not an image").toString("base64"), "image/heic");
+    expect(info).toEqual({ mimeType: "image/heic", bytes: 12 });
+  });
+});
+
+describe("imagePlaceholder", () => {
+  it("lists type, dimensions, size and saved path", () => {
+    expect(
+      imagePlaceholder({ mimeType: "image/png", bytes: 245_760, width: 1280, height: 720, path: "/tmp/a.png" })
+    ).toBe("[Image: image/png, 1280x720, 240 KB, /tmp/a.png]");
+  });
+
+  it("leaves out what isn't known", () => {
+    expect(imagePlaceholder({ mimeType: "image/heic", bytes: 12 })).toBe("[Image: image/heic, 12 B]");
+  });
+});
+
+describe("ImageStore", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "opensync-images-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("saves each image once, named by content hash", () => {
+    const store = new ImageStore(join(dir, "images"));
+
+    const first = store.save(PNG, "image/png");
+    const second = store.save(PNG, "image/png");
+
+    expect(first).toBe(second);
+    expect(first).toEndWith(".png");
+    expect(readdirSync(join(dir, "images"))).toHaveLength(1);
+  });
+});
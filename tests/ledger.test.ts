@@ -0,0 +1,40 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, readdirSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SessionLedger } from "../src/ledger";
+
+describe("SessionLedger", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "opensync-ledger-"));
+    path = join(dir, "synced-sessions.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keeps sessions added through different instances", () => {
+    new SessionLedger(path).add("s1");
+    new SessionLedger(path).add("s2");
+
+    const ledger = new SessionLedger(path);
+    expect(ledger.has("s1")).toBe(true);
+    expect(ledger.has("s2")).toBe(true);
+    expect(readdirSync(dir)).toEqual(["synced-sessions.json"]);
+  });
+
+  it("breaks a stale lock left by a crashed process", () => {
+    const lockPath = `${path}.lock`;
+    writeFileSync(lockPath, "");
+    const past = new Date(Date.now() - 60_000);
+    utimesSync(lockPath, past, past);
+
+    new SessionLedger(path).add("s1");
+
+    expect(new SessionLedger(path).has("s1")).toBe(true);
+  });
+});
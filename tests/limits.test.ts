@@ -0,0 +1,67 @@
+import { describe, it, expect } from "bun:test";
+import { byteLength, chunkBySize, limitValue, truncateText, truncateValue } from "../src/limits";
+
+describe("truncateText", () => {
+  it("leaves text within the budget untouched", () => {
+    expect(truncateText("short", 100)).toBe("short");
+  });
+
+  it("keeps the head and tail around a marker", () => {
+    const text = "BEGIN" + "x".repeat(10_000) + "END";
+    const truncated = truncateText(text, 200);
+
+    expect(byteLength(truncated)).toBeLessThanOrEqual(200);
+    expect(truncated.startsWith("BEGIN")).toBe(true);
+    expect(truncated.endsWith("END")).toBe(true);
+    expect(truncated).toMatch(/\[\.\.\. [\d,]+ bytes truncated \.\.\.\]/);
+  });
+
+  it("never splits multi-byte characters", () => {
+    const truncated = truncateText("é".repeat(1_000), 101);
+
+    expect(truncated).not.toContain("�");
+    expect(byteLength(truncated)).toBeLessThanOrEqual(101);
+  });
+});
+
+describe("truncateValue", () => {
+  it("truncates nested strings", () => {
+    const value = truncateValue({ path: "a.txt", content: "y".repeat(5_000), lines: [1, 2] }, 100) as {
+      path: string;
+      content: string;
+      lines: number[];
+    };
+
+    expect(value.path).toBe("a.txt");
+    expect(byteLength(value.content)).toBeLessThanOrEqual(100);
+    expect(value.lines).toEqual([1, 2]);
+  });
+});
+
+describe("limitValue", () => {
+  it("keeps the shape of values whose strings are the problem", () => {
+    const value = limitValue({ path: "a.txt", content: "y".repeat(5_000) }, 200);
+
+    expect(value).toMatchObject({ path: "a.txt" });
+    expect(byteLength(JSON.stringify(value))).toBeLessThanOrEqual(200);
+  });
+
+  it("replaces values with many strings by their truncated JSON", () => {
+    const edits = Array.from({ length: 100 }, () => ({ oldText: "a".repeat(900), newText: "b" }));
+    const value = limitValue({ path: "a.txt", edits }, 1_000);
+
+    expect(typeof value).toBe("string");
+    expect((value as string).startsWith('{"path":"a.txt"')).toBe(true);
+    expect(byteLength(JSON.stringify(value))).toBeLessThanOrEqual(1_000);
+  });
+});
+
+describe("chunkBySize", () => {
+  it("packs items into chunks within the budget", () => {
+    expect(chunkBySize([4, 4, 4, 4, 4], 10, (n) => n)).toEqual([[4, 4], [4, 4], [4]]);
+  });
+
+  it("gives an oversized item its own chunk", () => {
+    expect(chunkBySize([2, 50, 2], 10, (n) => n)).toEqual([[2], [50], [2]]);
+  });
+});
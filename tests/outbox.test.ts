@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, readdirSync, rmSync, writeFileSync, existsSync, utimesSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Outbox } from "../src/outbox";
+
+describe("Outbox", () => {
+  let dir: string;
+  let path: string;
+  let outbox: Outbox;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "opensync-outbox-"));
+    path = join(dir, "outbox.jsonl");
+    outbox = new Outbox(path);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("starts empty", () => {
+    expect(outbox.size()).toBe(0);
+    expect(outbox.peek()).toEqual([]);
+  });
+
+  it("returns entries in the order they were enqueued", () => {
+    outbox.enqueue({ endpoint: "/sync/session", payload: { n: 1 }, queuedAt: 1 });
+    outbox.enqueue({ endpoint: "/sync/message", payload: { n: 2 }, queuedAt: 2 });
+
+    expect(outbox.size()).toBe(2);
+
+    const entries = outbox.peek();
+    expect(entries.map((e) => e.payload)).toEqual([{ n: 1 }, { n: 2 }]);
+    expect(outbox.size()).toBe(2);
+  });
+
+  it("keeps entries until they are removed", () => {
+    outbox.enqueue({ endpoint: "/a", payload: 1, queuedAt: 1 });
+    outbox.enqueue({ endpoint: "/b", payload: 2, queuedAt: 2 });
+
+    const [first] = outbox.peek();
+    outbox.enqueue({ endpoint: "/c", payload: 3, queuedAt: 3 });
+    outbox.remove(first);
+    outbox.remove(first);
+
+    expect(outbox.peek().map((e) => e.endpoint)).toEqual(["/b", "/c"]);
+    expect(readdirSync(dir)).toEqual(["outbox.jsonl"]);
+  });
+
+  it("shares entries between instances pointing at the same file", () => {
+    const other = new Outbox(path);
+    outbox.enqueue({ endpoint: "/a", payload: 1, queuedAt: 1 });
+    other.enqueue({ endpoint: "/b", payload: 2, queuedAt: 2 });
+
+    expect(other.peek()).toHaveLength(2);
+    for (const entry of other.peek()) outbox.remove(entry);
+    expect(other.size()).toBe(0);
+  });
+
+  it("skips corrupt lines", () => {
+    writeFileSync(path, '{"endpoint":"/a","payload":1,"queuedAt":1}\n{"endpoint":"/b",\n');
+
+    expect(outbox.peek().map((e) => e.endpoint)).toEqual(["/a"]);
+  });
+
+  it("breaks a stale lock left by a crashed process", () => {
+    const lockPath = `${path}.lock`;
+    writeFileSync(lockPath, "");
+    const past = new Date(Date.now() - 60_000);
+    utimesSync(lockPath, past, past);
+
+    outbox.enqueue({ endpoint: "/a", payload: 1, queuedAt: 1 });
+
+    expect(outbox.size()).toBe(1);
+    expect(existsSync(lockPath)).toBe(false);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "bun:test";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { SyncClient, type MessageData } from "../src/client";
+import { buildPreview, formatPreview, PreviewComponent } from "../src/preview";
+import { testConfig } from "./helpers";
+
+const ctx = { sessionManager: { getSessionName: () => "Preview", getBranch: () => [] } } as unknown as ExtensionContext;
+
+const config = testConfig();
+
+const messages: MessageData[] = [
+  { role: "user", sessionId: "s1", messageId: "m1", text: "Use osk_1234567890abcdef" },
+  {
+    role: "assistant",
+    sessionId: "s1",
+    messageId: "m2",
+    content: [
+      { type: "thinking", thinking: "Private reasoning" },
+      { type: "text", text: "Done" },
+    ],
+    model: "claude-sonnet-4-5",
+    timestamp: 1706400000000,
+  },
+];
+
+describe("buildPreview", () => {
+  it("applies each destination's filters and redaction without sending", () => {
+    const originalFetch = globalThis.fetch;
+    let requests = 0;
+    globalThis.fetch = (async () => {
+      requests++;
+      return new Response("{}");
+    }) as unknown as typeof fetch;
+
+    const [preview] = buildPreview(
+      [{ name: "default", client: new SyncClient(config) }],
+      { sessionId: "s1", projectPath: "/home/user/project", messageCount: 2 },
+      ctx,
+      messages
+    );
+    globalThis.fetch = originalFetch;
+
+    expect(requests).toBe(0);
+
+    expect(preview.session).toMatchObject({ externalId: "s1", title: "Preview", messageCount: 2 });
+    expect(preview.messages[0].textContent).toBe("Use [REDACTED:opensync-key]");
+    expect(JSON.stringify(preview.messages[1])).not.toContain("Private reasoning");
+  });
+
+  it("shows where images would be saved without saving them", () => {
+    const dir = mkdtempSync(join(tmpdir(), "opensync-preview-"));
+    const imageDir = join(dir, "images");
+    const png =
+      "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+    const [preview] = buildPreview(
+      [{ name: "default", client: new SyncClient({ ...config, imageDir }) }],
+      { sessionId: "s1", projectPath: "/home/user/project" },
+      ctx,
+      [
+        {
+          role: "user",
+          sessionId: "s1",
+          messageId: "m1",
+          text: "",
+          images: [{ type: "image", data: png, mimeType: "image/png" }],
+        },
+      ]
+    );
+    const saved = existsSync(imageDir);
+    rmSync(dir, { recursive: true, force: true });
+
+    expect(saved).toBe(false);
+    expect(preview.messages[0].textContent).toContain(imageDir);
+  });
+});
+
+describe("formatPreview", () => {
+  it("lists every payload with its size and a total", () => {
+    const previews = buildPreview(
+      [{ name: "work", client: new SyncClient(config) }],
+      { sessionId: "s1", projectPath: "/home/user/project" },
+      ctx,
+      messages
+    );
+
+    const lines = formatPreview(previews, ["Paused"]);
+
+    expect(lines.slice(0, 2)).toEqual(["OpenSync preview - nothing has been sent", "Paused"]);
+    expect(lines).toContainEqual(expect.stringMatching(/^Destination work: session \+ 2 messages, \d+ B total$/));
+    expect(lines).toContainEqual(expect.stringMatching(/^── Session · \d+ B ──$/));
+    expect(lines).toContainEqual(expect.stringMatching(/^── Message 2\/2 · assistant · \d+ B ──$/));
+  });
+});
+
+describe("PreviewComponent", () => {
+  it("scrolls within the available height and closes on escape", () => {
+    let closed = false;
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const component = new PreviewComponent(lines, () => 9, () => (closed = true));
+
+    expect(component.render(40).slice(1, 6)).toEqual(["line 1", "line 2", "line 3", "line 4", "line 5"]);
+
+    component.handleInput("\x1b[B");
+    expect(component.render(40)[1]).toBe("line 2");
+
+    for (let i = 0; i < 50; i++) component.handleInput("\x1b[B");
+    const rendered = component.render(40);
+    expect(rendered[5]).toBe("line 20");
+    expect(rendered.at(-1)).toContain("16-20 of 20");
+
+    component.handleInput("\x1b");
+    expect(closed).toBe(true);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { IGNORE_MARKER, exclusionReason, findIgnoreMarker, inspectProject } from "../src/project";
+import { testConfig } from "./helpers";
+
+describe("exclusionReason", () => {
+  const config = testConfig();
+
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "opensync-project-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("syncs everything when no rules are configured", () => {
+    expect(exclusionReason(config, { path: dir, remotes: [] })).toBeUndefined();
+  });
+
+  it("excludes projects below an ignore marker", () => {
+    const nested = join(dir, "packages", "api");
+    mkdirSync(join(dir, ".pi"), { recursive: true });
+    mkdirSync(nested, { recursive: true });
+    writeFileSync(join(dir, IGNORE_MARKER), "");
+
+    expect(findIgnoreMarker(nested)).toBe(join(dir, IGNORE_MARKER));
+    expect(exclusionReason(config, { path: nested, remotes: [] })).toContain("opensync-ignore");
+  });
+
+  it("excludes projects matching an exclude rule", () => {
+    const rules = { ...config, exclude: [{ remote: "github.com/client-co/*" }] };
+
+    expect(
+      exclusionReason(rules, { path: dir, remotes: ["github.com/client-co/portal"] })
+    ).toBe('matches exclude rule remote "github.com/client-co/*"');
+    expect(exclusionReason(rules, { path: dir, remotes: ["github.com/me/dotfiles"] })).toBeUndefined();
+  });
+
+  it("only syncs projects matching an include rule when include rules exist", () => {
+    const rules = { ...config, include: [{ path: `${dir}/oss/**` }] };
+
+    expect(exclusionReason(rules, { path: join(dir, "oss", "lib"), remotes: [] })).toBeUndefined();
+    expect(exclusionReason(rules, { path: join(dir, "journal"), remotes: [] })).toBe(
+      "not matched by any include rule"
+    );
+  });
+
+  it("lets exclude rules win over include rules", () => {
+    const rules = {
+      ...config,
+      include: [{ path: `${dir}/**` }],
+      exclude: [{ path: `${dir}/secret` }],
+    };
+
+    expect(exclusionReason(rules, { path: join(dir, "secret"), remotes: [] })).toContain("exclude rule");
+  });
+
+  it("skips git when no rule matches on remotes", async () => {
+    const project = await inspectProject({ ...config, exclude: [{ path: "/nowhere" }] }, dir);
+
+    expect(project).toEqual({ path: dir, remotes: [] });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "bun:test";
+import { backoffDelay, isRetryableStatus, parseRetryAfter } from "../src/retry";
+
+describe("isRetryableStatus", () => {
+  it("retries timeouts, rate limits and server errors", () => {
+    expect(isRetryableStatus(408)).toBe(true);
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(500)).toBe(true);
+    expect(isRetryableStatus(503)).toBe(true);
+  });
+
+  it("does not retry other client errors", () => {
+    expect(isRetryableStatus(400)).toBe(false);
+    expect(isRetryableStatus(401)).toBe(false);
+    expect(isRetryableStatus(403)).toBe(false);
+    expect(isRetryableStatus(404)).toBe(false);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("parses delta seconds", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+    expect(parseRetryAfter("0.5")).toBe(500);
+  });
+
+  it("parses HTTP dates relative to now", () => {
+    const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:10 GMT", now)).toBe(10_000);
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:27:00 GMT", now)).toBe(0);
+  });
+
+  it("returns undefined for missing or invalid headers", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
+
+describe("backoffDelay", () => {
+  const policy = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+
+  it("doubles the ceiling with every attempt", () => {
+    const max = () => 1;
+    expect(backoffDelay(1, policy, max)).toBe(100);
+    expect(backoffDelay(2, policy, max)).toBe(200);
+    expect(backoffDelay(3, policy, max)).toBe(400);
+  });
+
+  it("caps the ceiling at maxDelayMs", () => {
+    expect(backoffDelay(10, policy, () => 1)).toBe(1000);
+  });
+
+  it("applies jitter below the ceiling", () => {
+    expect(backoffDelay(3, policy, () => 0.5)).toBe(200);
+    expect(backoffDelay(3, policy, () => 0)).toBe(0);
+  });
+});
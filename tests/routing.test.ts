@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { homedir } from "node:os";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import type { SyncResult, SyncTarget } from "../src/client";
+import { normalizeRemoteUrl } from "../src/git";
+import { matchesGlob } from "../src/glob";
+import { FanoutClient, SyncRouter, matchRoute, resolveDestinations } from "../src/routing";
+import { testConfig } from "./helpers";
+
+const baseConfig = testConfig({
+  convexUrl: "https://personal.convex.cloud",
+  apiKey: "osk_personal",
+  profiles: {
+    work: { convexUrl: "https://opensync.acme.internal", apiKey: "osk_work", syncThinking: true },
+    archive: { convexUrl: "https://archive.convex.cloud", apiKey: "osk_archive" },
+  },
+  routes: [
+    { remote: "github.com/acme/*", profiles: ["work"] },
+    { path: "~/work/**", profiles: ["work", "archive"] },
+  ],
+});
+
+describe("matchesGlob", () => {
+  it("matches single and double star segments", () => {
+    expect(matchesGlob("/src/app", "/src/*")).toBe(true);
+    expect(matchesGlob("/src/app/nested", "/src/*")).toBe(false);
+    expect(matchesGlob("/src/app/nested", "/src/**")).toBe(true);
+    expect(matchesGlob("/src", "/src/**")).toBe(true);
+    expect(matchesGlob("/srcs", "/src/**")).toBe(false);
+  });
+
+  it("lets a double star in the middle match no directories at all", () => {
+    expect(matchesGlob("/w/api", "/w/**/api")).toBe(true);
+    expect(matchesGlob("/w/a/b/api", "/w/**/api")).toBe(true);
+    expect(matchesGlob("/w/xapi", "/w/**/api")).toBe(false);
+    expect(matchesGlob("api", "**/api")).toBe(true);
+  });
+
+  it("expands a leading tilde", () => {
+    expect(matchesGlob(`${homedir()}/work/api`, "~/work/*")).toBe(true);
+  });
+
+  it("treats regex characters literally", () => {
+    expect(matchesGlob("github.com/acme/api", "github.com/acme/*")).toBe(true);
+    expect(matchesGlob("githubxcom/acme/api", "github.com/acme/*")).toBe(false);
+  });
+});
+
+describe("normalizeRemoteUrl", () => {
+  it("normalizes SSH and HTTPS remotes to host/owner/repo", () => {
+    expect(normalizeRemoteUrl("git@github.com:acme/api.git")).toBe("github.com/acme/api");
+    expect(normalizeRemoteUrl("https://github.com/acme/api")).toBe("github.com/acme/api");
+    expect(normalizeRemoteUrl("ssh://git@gitlab.example.com:2222/acme/api.git")).toBe(
+      "gitlab.example.com/acme/api"
+    );
+  });
+});
+
+describe("resolveDestinations", () => {
+  it("uses the default profile when no route matches", () => {
+    const { destinations } = resolveDestinations(baseConfig, { path: "/tmp/side-project", remotes: [] });
+
+    expect(destinations.map((d) => d.name)).toEqual(["default"]);
+    expect(destinations[0].config.convexUrl).toBe("https://personal.convex.cloud");
+  });
+
+  it("routes by git remote with profile settings layered over the top level", () => {
+    const { destinations } = resolveDestinations(baseConfig, {
+      path: "/tmp/api",
+      remotes: ["github.com/acme/api"],
+    });
+
+    expect(destinations.map((d) => d.name)).toEqual(["work"]);
+    expect(destinations[0].config.apiKey).toBe("osk_work");
+    expect(destinations[0].config.syncThinking).toBe(true);
+    expect(destinations[0].config.redactSecrets).toBe(true);
+  });
+
+  it("fans out to every profile of the first matching rule", () => {
+    const rule = matchRoute(baseConfig.routes, { path: `${homedir()}/work/api`, remotes: [] });
+    const { destinations } = resolveDestinations(baseConfig, { path: `${homedir()}/work/api`, remotes: [] });
+
+    expect(rule?.path).toBe("~/work/**");
+    expect(destinations.map((d) => d.name)).toEqual(["work", "archive"]);
+  });
+
+  it("reports unknown profiles instead of falling back to the default", () => {
+    const config = { ...baseConfig, routes: [{ path: "/tmp/**", profiles: ["wrok"] }] };
+    const { destinations, missing } = resolveDestinations(config, { path: "/tmp/api", remotes: [] });
+
+    expect(destinations).toEqual([]);
+    expect(missing).toEqual(["wrok"]);
+  });
+});
+
+describe("FanoutClient", () => {
+  const target = (result: SyncResult, calls: string[], name: string): SyncTarget => ({
+    syncSession: async () => (calls.push(name), result),
+    syncMessage: async () => (calls.push(name), result),
+    syncBatch: async () => (calls.push(name), result),
+    deferSession: () => (calls.push(name), result),
+    deferBatch: () => (calls.push(name), result),
+    flushOutbox: async () => result,
+    pendingCount: () => (result.queued ? 1 : 0),
+    status: () => [{ url: `https://${name}.convex.site`, pending: result.queued ? 1 : 0 }],
+  });
+
+  it("sends to every destination and combines failures", async () => {
+    const calls: string[] = [];
+    const client = new FanoutClient([
+      { name: "personal", client: target({ success: true }, calls, "personal") },
+      { name: "work", client: target({ success: false, error: "503: down", queued: true }, calls, "work") },
+    ]);
+
+    const result = await client.syncMessage({
+      role: "user",
+      sessionId: "s",
+      messageId: "m",
+      text: "hi",
+    });
+
+    expect(calls).toEqual(["personal", "work"]);
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("work: 503: down");
+    expect(result.queued).toBe(true);
+    expect(client.pendingCount()).toBe(1);
+  });
+});
+
+describe("SyncRouter", () => {
+  let originalFetch: typeof fetch;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("sends a fanned-out session to each destination's URL", async () => {
+    const urls: string[] = [];
+    globalThis.fetch = (async (url: RequestInfo | URL) => {
+      urls.push(String(url));
+      return new Response(JSON.stringify({ ok: true }), { status: 200 });
+    }) as typeof fetch;
+
+    const config = { ...baseConfig, routes: [{ path: "/tmp/**", profiles: ["default", "work"] }] };
+    const { client, destinations } = new SyncRouter(config).forProject({ path: "/tmp/api", remotes: [] });
+    const ctx = { sessionManager: { getSessionName: () => "Test", getBranch: () => [] } } as unknown as ExtensionContext;
+
+    await client.syncSession({ sessionId: "s", projectPath: "/tmp/api" }, ctx);
+
+    expect(destinations.map((d) => d.name)).toEqual(["default", "work"]);
+    expect(urls.sort()).toEqual([
+      "https://opensync.acme.internal/sync/session",
+      "https://personal.convex.site/sync/session",
+    ]);
+  });
+});
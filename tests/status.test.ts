@@ -0,0 +1,112 @@
+import { describe, it, expect } from "bun:test";
+import { formatStatus } from "../src/status";
+import { testConfig } from "./helpers";
+
+describe("formatStatus", () => {
+  const config = testConfig({ convexUrl: "https://test.convex.cloud" });
+
+  const now = 1_700_000_000_000;
+
+  it("points to /opensync:config when not configured", () => {
+    const text = formatStatus({ config: null, session: null, destinations: [] });
+
+    expect(text).toContain("/opensync:config");
+  });
+
+  it("shows session totals and destination health", () => {
+    const text = formatStatus(
+      {
+        config,
+        session: {
+          sessionId: "abc123",
+          parentSessionId: "parent456",
+          projectPath: "/project",
+          model: "Claude Sonnet 4.5",
+          provider: "anthropic",
+          promptTokens: 1200,
+          completionTokens: 340,
+          cacheReadTokens: 800,
+          cacheWriteTokens: 100,
+          cost: 0.0123,
+          costBreakdown: { input: 0.001, output: 0.0051, cacheRead: 0.0024, cacheWrite: 0.0038 },
+          messageCount: 6,
+          toolCallCount: 2,
+          git: {
+            branch: "fix-login",
+            remote: "github.com/acme/api",
+            startCommit: "0123456789abcdef",
+            endCommit: "fedcba9876543210",
+            dirty: true,
+          },
+          models: [
+            {
+              model: "Claude Haiku 4.5",
+              provider: "anthropic",
+              promptTokens: 1000,
+              completionTokens: 300,
+              cacheReadTokens: 800,
+              cacheWriteTokens: 0,
+              cost: 0.002,
+              costBreakdown: { input: 0.0004, output: 0.0012, cacheRead: 0.0004, cacheWrite: 0 },
+              messageCount: 2,
+            },
+            {
+              model: "Claude Sonnet 4.5",
+              provider: "anthropic",
+              promptTokens: 200,
+              completionTokens: 40,
+              cacheReadTokens: 0,
+              cacheWriteTokens: 100,
+              cost: 0.0103,
+              costBreakdown: { input: 0.0006, output: 0.0039, cacheRead: 0, cacheWrite: 0.0038 },
+              messageCount: 1,
+            },
+          ],
+          startedAt: now - 60_000,
+          mode: { paused: true, private: false },
+          tags: ["bugfix", "JIRA-123"],
+          userTags: ["bugfix"],
+          syncedMessageIds: new Set(),
+        },
+        queued: 3,
+        destinations: [
+          {
+            name: "work",
+            url: "https://work.convex.site",
+            pending: 2,
+            lastSuccess: { endpoint: "/sync/message", at: now - 5_000 },
+            lastFailure: { endpoint: "/sync/session", at: now - 120_000, error: "503: Unavailable" },
+          },
+        ],
+      },
+      now
+    );
+
+    expect(text).toContain("Session: abc123");
+    expect(text).toContain("Message sync: paused");
+    expect(text).toContain("Forked from: parent456");
+    expect(text).toContain("Model: Claude Sonnet 4.5 (anthropic)");
+    expect(text).toContain("Git: fix-login at fedcba9 (github.com/acme/api), uncommitted changes");
+    expect(text).toContain("Tags: bugfix, JIRA-123");
+    expect(text).toContain("Tokens: 1200 prompt (800 cache read, 100 cache write), 340 completion");
+    expect(text).toContain("Cost: $0.0123");
+    expect(text).toContain("  Claude Haiku 4.5 (anthropic): 1300 tokens, $0.0020");
+    expect(text).toContain("  Claude Sonnet 4.5 (anthropic): 240 tokens, $0.0103");
+    expect(text).toContain("Destination work: https://work.convex.site");
+    expect(text).toContain("Last success: /sync/message 5s ago");
+    expect(text).toContain("Last failure: /sync/session 2m ago: 503: Unavailable");
+    expect(text).toContain("Queued requests: 3");
+    expect(text).toContain("Pending in outbox: 2");
+  });
+
+  it("explains why the project is excluded", () => {
+    const text = formatStatus({
+      config,
+      session: null,
+      destinations: [],
+      exclusion: "found /project/.pi/opensync-ignore",
+    });
+
+    expect(text).toContain("Project: excluded (found /project/.pi/opensync-ignore)");
+  });
+});
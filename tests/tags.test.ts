@@ -0,0 +1,69 @@
+import { describe, it, expect } from "bun:test";
+import { SessionManager } from "@mariozechner/pi-coding-agent";
+import {
+  applyTagArgs,
+  autoTags,
+  mergeTags,
+  readTags,
+  TAGS_ENTRY,
+  type TagFacts,
+  type TagRule,
+} from "../src/tags";
+
+const facts: TagFacts = {
+  project: { path: "/work/api", remotes: ["github.com/acme/api"] },
+  branch: "feature/JIRA-123-login",
+  models: ["Claude Sonnet 4.5", "Claude Opus 4.1"],
+};
+
+describe("mergeTags", () => {
+  it("drops blanks and duplicates, keeping first-seen order", () => {
+    expect(mergeTags(["b", " a "], ["", "b", "c"])).toEqual(["b", "a", "c"]);
+  });
+});
+
+describe("autoTags", () => {
+  it("tags by project, model and branch", () => {
+    const tags = autoTags(
+      [
+        { remote: "github.com/acme/*", tags: ["work"] },
+        { path: "/personal/**", tags: ["personal"] },
+        { model: "*Opus*", tags: ["opus"] },
+        { branch: "^feature/([A-Z]+-\\d+)", tags: ["$1", "feature"] },
+        { branch: "^release/", tags: ["release"] },
+      ],
+      facts
+    );
+
+    expect(tags).toEqual(["work", "opus", "JIRA-123", "feature"]);
+  });
+
+  it("requires every condition of a rule to match", () => {
+    expect(autoTags([{ remote: "github.com/acme/*", model: "*Haiku*", tags: ["x"] }], facts)).toEqual([]);
+  });
+
+  it("ignores invalid branch patterns and rules without tags", () => {
+    // Rules come from hand-edited config, so they may be missing tags
+    const rules = [{ branch: "(", tags: ["broken"] }, { path: "/work/**" }] as unknown as TagRule[];
+    expect(autoTags(rules, facts)).toEqual([]);
+  });
+});
+
+describe("applyTagArgs", () => {
+  it("adds tags and removes those prefixed with a dash", () => {
+    expect(applyTagArgs(["bugfix", "spike"], "JIRA-123 -spike bugfix")).toEqual(["bugfix", "JIRA-123"]);
+  });
+});
+
+describe("readTags", () => {
+  it("uses the latest tags entry on the branch", () => {
+    const sm = SessionManager.inMemory("/work/api");
+    expect(readTags(sm.getBranch())).toEqual([]);
+
+    sm.appendCustomEntry(TAGS_ENTRY, { tags: ["spike"] });
+    sm.appendMessage({ role: "user", content: "Hello", timestamp: Date.now() });
+    sm.appendCustomEntry(TAGS_ENTRY, { tags: ["bugfix", 42] });
+
+    expect(readTags(sm.getBranch())).toEqual(["bugfix"]);
+  });
+});
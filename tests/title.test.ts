@@ -0,0 +1,102 @@
+import { describe, it, expect } from "bun:test";
+import { SessionManager } from "@mariozechner/pi-coding-agent";
+import { SYNC_MODE_ENTRY } from "../src/session";
+import {
+  renderTitleTemplate,
+  sessionTitle,
+  shortenTitle,
+  TITLE_ENTRY,
+  type TitleOptions,
+} from "../src/title";
+
+const options: TitleOptions = {
+  titleStrategy: "first-message",
+  titleTemplate: "{project} ({branch}) {date}: {message}",
+  forkTitleTemplate: "[Fork::{parent}] {title}",
+  includeContent: true,
+};
+
+const session = {
+  sessionId: "s1",
+  projectPath: "/work/api",
+  git: { branch: "fix-login", dirty: false },
+  startedAt: new Date(2026, 9, 19, 12).getTime(),
+};
+
+function sessionWith(...texts: string[]) {
+  const sm = SessionManager.inMemory("/work/api");
+  for (const text of texts) sm.appendMessage({ role: "user", content: text, timestamp: Date.now() });
+  return sm;
+}
+
+describe("shortenTitle", () => {
+  it("keeps one line and cuts long text at a word boundary", () => {
+    expect(shortenTitle("Fix the\n  login   bug")).toBe("Fix the login bug");
+    expect(shortenTitle("Refactor the session manager to use events", 20)).toBe("Refactor the…");
+  });
+});
+
+describe("renderTitleTemplate", () => {
+  it("fills in variables and drops dangling separators", () => {
+    expect(renderTitleTemplate("{project}: {message}", { project: "api", message: "Fix it" })).toBe("api: Fix it");
+    expect(renderTitleTemplate("{project}: {message}", { project: "api" })).toBe("api");
+  });
+
+  it("keeps unknown variables as written", () => {
+    expect(renderTitleTemplate("{projct}", { project: "api" })).toBe("{projct}");
+  });
+});
+
+describe("sessionTitle", () => {
+  it("prefers the session name from pi", () => {
+    const sm = sessionWith("Fix the login bug");
+    sm.appendSessionInfo("Login work");
+
+    expect(sessionTitle(options, session, sm)).toBe("Login work");
+  });
+
+  it("uses the first user message by default", () => {
+    const sm = sessionWith("Fix the login bug", "Now add a test");
+
+    expect(sessionTitle(options, session, sm)).toBe("Fix the login bug");
+    expect(sessionTitle(options, session, SessionManager.inMemory("/work/api"))).toBe("Untitled");
+  });
+
+  it("skips messages that weren't synced and all content in private mode", () => {
+    const sm = SessionManager.inMemory("/work/api");
+    sm.appendCustomEntry(SYNC_MODE_ENTRY, { paused: true });
+    sm.appendMessage({ role: "user", content: "my password is hunter2", timestamp: Date.now() });
+    sm.appendCustomEntry(SYNC_MODE_ENTRY, { paused: false });
+    sm.appendMessage({ role: "user", content: "Fix the login bug", timestamp: Date.now() });
+
+    expect(sessionTitle(options, session, sm)).toBe("Fix the login bug");
+    expect(sessionTitle({ ...options, includeContent: false }, session, sm)).toBe("Untitled");
+  });
+
+  it("fills in the template", () => {
+    const sm = sessionWith("Fix the login bug");
+
+    expect(sessionTitle({ ...options, titleStrategy: "template" }, session, sm)).toBe(
+      "api (fix-login) 2026-10-19: Fix the login bug"
+    );
+  });
+
+  it("uses the stored summary once there is one", () => {
+    const sm = sessionWith("Fix the login bug");
+    const summary = { ...options, titleStrategy: "summary" as const };
+    expect(sessionTitle(summary, session, sm)).toBe("Fix the login bug");
+
+    sm.appendCustomEntry(TITLE_ENTRY, { title: "Repair expired session logins" });
+    expect(sessionTitle(summary, session, sm)).toBe("Repair expired session logins");
+  });
+
+  it("wraps forks in the fork template", () => {
+    const sm = sessionWith("Fix the login bug");
+    const fork = { ...session, parentSessionId: "parent-123456" };
+
+    expect(sessionTitle(options, fork, sm)).toBe("[Fork::parent-1] Fix the login bug");
+    expect(sessionTitle({ ...options, forkTitleTemplate: "{title} (fork)" }, fork, sm)).toBe(
+      "Fix the login bug (fork)"
+    );
+  });
+});
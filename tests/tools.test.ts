@@ -0,0 +1,28 @@
+import { describe, it, expect } from "bun:test";
+import { describeToolRules, toolRuleFor, type ToolRules } from "../src/tools";
+
+describe("toolRuleFor", () => {
+  it("returns the configured rule", () => {
+    expect(toolRuleFor({ read: "call", secrets: "none" }, "read")).toBe("call");
+    expect(toolRuleFor({ read: "call", secrets: "none" }, "secrets")).toBe("none");
+  });
+
+  it("syncs unlisted tools in full", () => {
+    expect(toolRuleFor({ read: "call" }, "bash")).toBe("all");
+    expect(toolRuleFor({}, "constructor")).toBe("all");
+  });
+
+  it("ignores values that aren't a known rule", () => {
+    expect(toolRuleFor({ read: "results" } as unknown as ToolRules, "read")).toBe("all");
+  });
+});
+
+describe("describeToolRules", () => {
+  it("lists restricted tools by name", () => {
+    expect(describeToolRules({ secrets: "none", read: "call", bash: "all" })).toBe("read: call, secrets: none");
+  });
+
+  it("says when every tool is synced in full", () => {
+    expect(describeToolRules({})).toBe("all tools");
+  });
+});
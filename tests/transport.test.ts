@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileTransport } from "../src/transport";
+
+describe("FileTransport", () => {
+  let dir: string;
+  let transport: FileTransport;
+
+  const lines = (sessionId: string) =>
+    readFileSync(join(dir, `${sessionId}.jsonl`), "utf-8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "opensync-export-"));
+    transport = new FileTransport(dir);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("appends session and message payloads to the session's file", async () => {
+    const session = { externalId: "s1", source: "pi", title: "Test" };
+    const message = { sessionExternalId: "s1", externalId: "s1-a", role: "user", textContent: "Hi" };
+
+    expect((await transport.send("/sync/session", session)).success).toBe(true);
+    expect((await transport.send("/sync/message", message)).success).toBe(true);
+
+    expect(lines("s1")).toEqual([session, message]);
+  });
+
+  it("splits batches into per-session files", async () => {
+    const result = await transport.send("/sync/batch", {
+      sessions: [],
+      messages: [
+        { sessionExternalId: "s1", externalId: "s1-a" },
+        { sessionExternalId: "s2", externalId: "s2-a" },
+        { sessionExternalId: "s1", externalId: "s1-b" },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    expect(readdirSync(dir).sort()).toEqual(["s1.jsonl", "s2.jsonl"]);
+    expect(lines("s1").map((m) => m.externalId)).toEqual(["s1-a", "s1-b"]);
+  });
+
+  it("rejects endpoints it can't represent", async () => {
+    const result = await transport.send("/sync/unknown", {});
+
+    expect(result.success).toBe(false);
+    expect(result.retryable).toBeUndefined();
+  });
+
+  it("creates the export directory when checked", async () => {
+    const nested = new FileTransport(join(dir, "nested", "export"));
+
+    expect(await nested.check()).toEqual({ success: true });
+    expect(readdirSync(join(dir, "nested"))).toEqual(["export"]);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from "bun:test";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import type { MessageData, SessionData, SyncResult, SyncTarget } from "../src/client";
+import { SyncWorker } from "../src/worker";
+
+const ctx = { sessionManager: { getSessionName: () => "Test" } } as unknown as ExtensionContext;
+
+const message = (id: string, sessionId = "s1"): MessageData => ({
+  role: "user",
+  sessionId,
+  messageId: id,
+  text: id,
+});
+
+/**
+ * Target that records calls and only answers when released
+ */
+function fakeTarget() {
+  const calls: string[] = [];
+  const deferred: string[] = [];
+  const waiting: (() => void)[] = [];
+  const respond = (call: string): Promise<SyncResult> => {
+    calls.push(call);
+    return new Promise((resolve) => waiting.push(() => resolve({ success: true })));
+  };
+
+  const target: SyncTarget = {
+    syncSession: (data: SessionData, _ctx, isFinal) =>
+      respond(`session:${data.messageCount}${isFinal ? ":final" : ""}`),
+    syncMessage: (m) => respond(`message:${m.messageId}`),
+    syncBatch: (ms) => respond(`batch:${ms.map((m) => m.messageId).join(",")}`),
+    deferSession: (data: SessionData, _ctx, isFinal) => {
+      deferred.push(`session:${data.messageCount}${isFinal ? ":final" : ""}`);
+      return { success: false, queued: true };
+    },
+    deferBatch: (ms) => {
+      deferred.push(`batch:${ms.map((m) => m.messageId).join(",")}`);
+      return { success: false, queued: true };
+    },
+    flushOutbox: () => respond("outbox"),
+    pendingCount: () => 0,
+    status: () => [],
+  };
+
+  /** Answer in-flight requests until the worker goes idle */
+  const releaseAll = async () => {
+    for (let i = 0; i < 20; i++) {
+      await new Promise((r) => setTimeout(r, 0));
+      waiting.splice(0).forEach((release) => release());
+    }
+  };
+
+  return { target, calls, deferred, releaseAll };
+}
+
+describe("SyncWorker", () => {
+  it("sends a session's requests one at a time, in order", async () => {
+    const { target, calls, releaseAll } = fakeTarget();
+    const worker = new SyncWorker();
+
+    worker.syncMessage(target, message("m1"));
+    worker.syncBatch(target, [message("m2"), message("m3")]);
+    worker.syncSession(target, { sessionId: "s1", projectPath: "/p", messageCount: 3 }, ctx);
+
+    await new Promise((r) => setTimeout(r, 0));
+    expect(calls).toEqual(["message:m1"]);
+
+    await releaseAll();
+    expect(calls).toEqual(["message:m1", "batch:m2,m3", "session:3"]);
+    expect(worker.size()).toBe(0);
+  });
+
+  it("coalesces consecutive session updates", async () => {
+    const { target, calls, releaseAll } = fakeTarget();
+    const worker = new SyncWorker();
+    const results: boolean[] = [];
+    const state: SessionData = { sessionId: "s1", projectPath: "/p", messageCount: 1 };
+
+    worker.syncMessage(target, message("m1"));
+    worker.syncSession(target, state, ctx, { onResult: (r) => results.push(r.success) });
+    state.messageCount = 2;
+    worker.syncSession(target, state, ctx, { onResult: (r) => results.push(r.success) });
+    state.messageCount = 3;
+    worker.syncSession(target, state, ctx, { isFinal: true });
+
+    await releaseAll();
+    expect(calls).toEqual(["message:m1", "session:3:final"]);
+    expect(results).toEqual([true, true]);
+  });
+
+  it("keeps sessions independent", async () => {
+    const { target, calls, releaseAll } = fakeTarget();
+    const worker = new SyncWorker();
+
+    worker.syncMessage(target, message("a1", "a"));
+    worker.syncMessage(target, message("b1", "b"));
+
+    await new Promise((r) => setTimeout(r, 0));
+    expect(calls).toEqual(["message:a1", "message:b1"]);
+    await releaseAll();
+  });
+
+  it("returns from flush once the timeout passes", async () => {
+    const { target, releaseAll } = fakeTarget();
+    const worker = new SyncWorker();
+
+    worker.syncMessage(target, message("m1"));
+
+    expect(await worker.flush(20)).toBe(false);
+    expect(worker.size()).toBe(1);
+
+    const flushed = worker.flush(1_000);
+    await releaseAll();
+    expect(await flushed).toBe(true);
+  });
+
+  it("saves requests that didn't start before the timeout for replay", async () => {
+    const { target, calls, deferred, releaseAll } = fakeTarget();
+    const worker = new SyncWorker();
+    const results: SyncResult[] = [];
+
+    worker.syncMessage(target, message("m1"));
+    worker.syncBatch(target, [message("m2"), message("m3")]);
+    worker.flushOutbox(target, "s1");
+    worker.syncSession(target, { sessionId: "s1", projectPath: "/p", messageCount: 3 }, ctx, {
+      isFinal: true,
+      onResult: (result) => results.push(result),
+    });
+
+    expect(await worker.flush(20)).toBe(false);
+    expect(deferred).toEqual(["batch:m2,m3", "session:3:final"]);
+    expect(results).toEqual([{ success: false, queued: true }]);
+
+    await releaseAll();
+    expect(calls).toEqual(["message:m1"]);
+  });
+});